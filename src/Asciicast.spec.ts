@@ -0,0 +1,35 @@
+import test from "ava";
+import fs from "fs";
+import os from "os";
+import path from "path";
+
+import { readAsciicast, replay } from "./Asciicast";
+import { DynamicTerminal } from "./DynamicTerminal";
+import { VirtualTerminal } from "./VirtualTerminal";
+
+test("replays a recorded session to the same screen", async t => {
+  const recording = path.join(os.tmpdir(), `dynamic-terminal-${process.pid}.cast`);
+  const screen = new VirtualTerminal(20, 5);
+  const dt = new DynamicTerminal({ mode: "inline" });
+  await dt.start({ output: screen, record: recording });
+  await dt.update(["Downloading", "  file.txt"]);
+  await dt.log("Started");
+  screen.resize(10, 5);
+  await dt.update(["Done"]);
+  await dt.stop();
+  dt.destroy();
+
+  const { header, events } = readAsciicast(fs.readFileSync(recording, "utf8"));
+  t.is(header.version, 2);
+  t.deepEqual([header.width, header.height], [20, 5]);
+  t.deepEqual(events.filter(([, type]) => type === "r").map(([, , data]) => data), ["10x5"]);
+  t.true(events.every(([time], index) => index === 0 || time >= events[index - 1][0]));
+  t.true(events.some(([, type, data]) => type === "o" && data.includes("Downloading")));
+
+  const replayed = new VirtualTerminal(80, 24);
+  await replay(recording, replayed);
+  t.deepEqual([replayed.columns, replayed.rows], [10, 5]);
+  t.deepEqual(replayed.getLines(), screen.getLines());
+  t.deepEqual(replayed.getScrollback(), screen.getScrollback());
+  fs.unlinkSync(recording);
+});
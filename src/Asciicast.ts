@@ -0,0 +1,139 @@
+import fs from "fs";
+
+/** The first line of an asciicast v2 recording */
+export interface IAsciicastHeader {
+  version: 2;
+  width: number;
+  height: number;
+  /** The Unix time at which the recording started, in seconds */
+  timestamp?: number;
+  env?: { [name: string]: string };
+}
+
+/**
+ * An event of an asciicast v2 recording: the time in seconds since the start,
+ * the type ("o" for output, "r" for a resize to "WIDTHxHEIGHT") and the data.
+ */
+export type AsciicastEvent = [number, string, string];
+
+export interface IReplayOptions {
+  /**
+   * The playback speed, 1 plays the recording at its recorded pace. By default,
+   * everything is written at once, which is what tests usually want.
+   */
+  speed?: number;
+}
+
+/** A stream that can play a recording, it's resized with the recording if it can be */
+export type ReplayTarget = NodeJS.WritableStream & {
+  resize?: (columns: number, rows: number) => void;
+};
+
+/**
+ * Records terminal output to a file in the asciicast v2 format, which can be
+ * played back with replay() or asciinema. Each event is written synchronously,
+ * so that the recording survives a crash.
+ */
+export class AsciicastRecorder {
+  private fd: number;
+  private startTime: number;
+  private width: number;
+  private height: number;
+
+  constructor(path: string, width: number, height: number) {
+    this.fd = fs.openSync(path, "w");
+    this.startTime = Date.now();
+    this.width = width;
+    this.height = height;
+    const header: IAsciicastHeader = {
+      env: { TERM: process.env.TERM || "" },
+      height,
+      timestamp: Math.floor(this.startTime / 1000),
+      version: 2,
+      width
+    };
+    this.writeLine(header);
+  }
+
+  /** Records text that was written to the terminal */
+  public output(data: string) {
+    this.writeEvent("o", data);
+  }
+
+  /** Records the size of the terminal, if it has changed */
+  public resize(width: number, height: number) {
+    if (width !== this.width || height !== this.height) {
+      this.width = width;
+      this.height = height;
+      this.writeEvent("r", `${width}x${height}`);
+    }
+  }
+
+  public close() {
+    if (this.fd !== null) {
+      fs.closeSync(this.fd);
+      this.fd = null;
+    }
+  }
+
+  private writeEvent(type: string, data: string) {
+    if (this.fd !== null) {
+      const event: AsciicastEvent = [(Date.now() - this.startTime) / 1000, type, data];
+      this.writeLine(event);
+    }
+  }
+
+  private writeLine(value: IAsciicastHeader | AsciicastEvent) {
+    fs.writeSync(this.fd, JSON.stringify(value) + "\n");
+  }
+}
+
+/** Parses the contents of an asciicast v2 recording */
+export function readAsciicast(
+  text: string
+): { header: IAsciicastHeader; events: AsciicastEvent[] } {
+  const lines = text.split("\n").filter(line => line.trim() !== "");
+  const header: IAsciicastHeader = JSON.parse(lines[0] || "{}");
+  if (header.version !== 2) {
+    throw new Error("Only asciicast v2 recordings are supported");
+  }
+  return { header, events: lines.slice(1).map(line => JSON.parse(line)) };
+}
+
+/**
+ * Plays a recording back to a stream, such as a VirtualTerminal to inspect the
+ * screen, or stdout to watch it. The bytes are written exactly as they were
+ * recorded, which reproduces rendering bugs.
+ *
+ * @param recording The path of the recording
+ */
+export async function replay(
+  recording: string,
+  output: ReplayTarget,
+  options: IReplayOptions = {}
+): Promise<void> {
+  const { header, events } = readAsciicast(fs.readFileSync(recording, "utf8"));
+  resizeTarget(output, header.width, header.height);
+
+  let previousTime = 0;
+  for (const [time, type, data] of events) {
+    if (options.speed > 0 && time > previousTime) {
+      const delay = ((time - previousTime) * 1000) / options.speed;
+      await new Promise(resolve => setTimeout(resolve, delay));
+    }
+    previousTime = time;
+
+    if (type === "o") {
+      output.write(data);
+    } else if (type === "r") {
+      const [width, height] = data.split("x").map(value => parseInt(value, 10));
+      resizeTarget(output, width, height);
+    }
+  }
+}
+
+function resizeTarget(output: ReplayTarget, width: number, height: number) {
+  if (typeof output.resize === "function" && width > 0 && height > 0) {
+    output.resize(width, height);
+  }
+}
@@ -0,0 +1,82 @@
+import test from "ava";
+
+import { ChangeAlgorithm } from "./ChangeAlgorithm";
+import { VirtualTerminal } from "./VirtualTerminal";
+
+const ESC = "\x1B";
+const red = (text: string) => `${ESC}[31m${text}${ESC}[39m`;
+const link = (url: string, text: string) => `${ESC}]8;;${url}\x07${text}${ESC}]8;;\x07`;
+
+/** The text of the changes, with the column of each one */
+function changes(original: string, target: string): Array<[number, string]> {
+  return ChangeAlgorithm.getChanges(original, target, 0).map((change): [number, string] => [
+    change.index,
+    change.text
+  ]);
+}
+
+/**
+ * Writes the original line and then the changes to a screen, the way the
+ * renderer does, and checks that the screen looks exactly like the target
+ * written from scratch
+ */
+function assertApplies(
+  t: { deepEqual: (a: unknown, b: unknown) => void },
+  original: string,
+  target: string
+) {
+  const screen = new VirtualTerminal(20, 1);
+  for (const [index, text] of changes("", original).concat(changes(original, target))) {
+    screen.feed(`${ESC}[${index + 1}G${text}`);
+  }
+  const expected = new VirtualTerminal(20, 1);
+  expected.feed(target);
+  t.deepEqual(screen.getStyledLines(), expected.getStyledLines());
+}
+
+test("only rewrites the columns that changed", t => {
+  t.deepEqual(changes("Hello", "Hello"), []);
+  t.deepEqual(changes("Hello", "Hallo"), [[1, "a"]]);
+  t.deepEqual(changes("Hello", "Help"), [[3, "p" + `${ESC}[K`]]);
+  t.deepEqual(changes("Hello", ""), [[0, `${ESC}[K`]]);
+});
+
+test("addresses wide characters by their columns", t => {
+  t.deepEqual(changes("中文 a", "中文 b"), [[5, "b"]]);
+  t.deepEqual(changes("中文", "中字"), [[2, "字"]]);
+  assertApplies(t, "中文", "ab文");
+  assertApplies(t, "👍🏽 a", "👍 a");
+});
+
+test("keeps combining marks with their character", t => {
+  t.deepEqual(changes("café!", "cafe!"), [[3, "e"]]);
+  t.deepEqual(changes("cafe!", "café!"), [[3, "é"]]);
+  assertApplies(t, "cafés", "cafes");
+});
+
+test("repaints the columns whose style changed", t => {
+  t.deepEqual(
+    changes("ab", red("ab")),
+    [[0, `${ESC}[31mab${ESC}[0m`]],
+    "resets with the shortest code"
+  );
+  t.deepEqual(changes(red("ab"), red("a") + "b"), [[1, "b"]]);
+  assertApplies(t, red("abc"), `${ESC}[32mabc${ESC}[39m`);
+  assertApplies(t, `${ESC}[1;31mabc${ESC}[0m`, `${ESC}[1mabc${ESC}[0m`);
+});
+
+test("starts each change in the style that was reached before it", t => {
+  const original = `${ESC}[1mab${ESC}[0mcd`;
+  t.deepEqual(changes(original, `${ESC}[1mab${ESC}[0mce`), [[3, "e"]]);
+  t.deepEqual(changes(original, `${ESC}[1mab${ESC}[0m${ESC}[1mcd`), [[2, `${ESC}[1mcd${ESC}[0m`]]);
+  assertApplies(t, `${ESC}[4mabcd`, `${ESC}[4mab${ESC}[0mcd`);
+});
+
+test("opens and closes hyperlinks around a change", t => {
+  const original = link("https://a.com", "link") + " x";
+  const target = link("https://a.com", "lint") + " x";
+  t.deepEqual(changes(original, target), [[3, `${ESC}]8;;https://a.com\x07t${ESC}]8;;\x07`]]);
+  assertApplies(t, original, target);
+  assertApplies(t, original, link("https://b.com", "link") + " x");
+  assertApplies(t, "link x", "li" + link("https://a.com", "nk x"));
+});
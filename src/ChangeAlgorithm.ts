@@ -1,19 +1,29 @@
 import ansi from "ansi-escapes";
-import ansiRegex from "ansi-regex";
-import stripAnsi from "strip-ansi";
 
 import { IChange } from "./DynamicTerminalThread";
+import { applyCode, escapeCodeRegex, IStyle, styleEquals, styleTransition } from "./Style";
+import { graphemeWidth, splitGraphemes, textWidth } from "./Width";
 
 const ERASE_LINE_END = ansi.eraseEndLine;
-const RESET_STYLE = "\x1B[39;49m";
+
+/** A terminal column of a line, with the full style that it's written in */
+interface IColumn {
+  /** The grapheme that starts in this column, or null for the second column of a wide grapheme */
+  char: string | null;
+  style: IStyle;
+  /** Escape codes that don't change the style, written before the grapheme */
+  codes: string;
+}
 
 /**
  * A complex algorithm to calculate the required terminal changes necessary
  * to overwrite string A to become string B. Optimized for fast comparison,
  * while intelligently keeping in mind escape codes that are necessary.
  *
- * Designed to work with DynamicTerminal
- *
+ * Designed to work with DynamicTerminal. Positions are terminal columns, so
+ * wide characters (CJK, emoji) and combining marks are handled correctly.
+ * The style of every column is tracked, each change starts and ends with the
+ * terminal in its default style.
  */
 export class ChangeAlgorithm {
   /** Calculates the required changes to pass from "original" to "target" */
@@ -27,151 +37,62 @@ export class ChangeAlgorithm {
       return [];
     }
 
-    if (original === "") {
-      return [{ text: target, index: 0, line }];
-    }
-
     if (target === "") {
       return [{ text: ERASE_LINE_END, index: 0, line }];
     }
 
-    // ANSI Regex that fetches an array of all ANSI codes in a string
-    const ar = ansiRegex();
-
-    // Get all ANSI codes in sequential order
-    const originalANSICodes: string[] = original.match(ar) || [];
-    const targetANSICodes: string[] = target.match(ar) || [];
-
-    // Create a fast storage for accessing ANSI codes for each
-    // position of strippedInput and strippedOutput.
-    // The arrays contain positions where ANSI codes are present.
-    // The objects contain the ANSI codes for each position.
-    const originalCodeArray: number[] = [];
-    const targetCodeArray: number[] = [];
-    const originalCodeMap: { [index: number]: string } = {};
-    const targetCodeMap: { [index: number]: string } = {};
-
-    // These will be stripped of ANSI codes
-    let strippedOriginal = original;
-    let strippedTarget = target;
-
-    // Build the CodeArray and CodeMaps, while stripping the
-    // original and target of ANSI codes at the same time.
-    originalANSICodes.forEach(code => {
-      const position = strippedOriginal.indexOf(code);
-      strippedOriginal =
-        strippedOriginal.slice(0, position) + strippedOriginal.slice(position + code.length);
-      if (originalCodeMap[position]) {
-        originalCodeMap[position] += code;
-      } else {
-        originalCodeMap[position] = code;
-      }
-      if (originalCodeArray.indexOf(position) === -1) {
-        originalCodeArray.push(position);
-      }
-    });
-
-    targetANSICodes.forEach(code => {
-      const position = strippedTarget.indexOf(code);
-      strippedTarget =
-        strippedTarget.slice(0, position) + strippedTarget.slice(position + code.length);
-      if (targetCodeMap[position]) {
-        targetCodeMap[position] += code;
-      } else {
-        targetCodeMap[position] = code;
-      }
-      if (targetCodeArray.indexOf(position) === -1) {
-        targetCodeArray.push(position);
-      }
-    });
+    // Split both strings into terminal columns, with the style that each column is written in
+    const originalColumns = toColumns(original).columns;
+    const { columns: targetColumns, trailingCodes } = toColumns(target);
 
     // This will store the changes that will be returned
     const changes: IChange[] = [];
     // This stores an open change that is being written to. When closed, it's pushed to "changes"
     let changeBuffer: IChange;
-
-    // Compare originalStripped and targetStripped, once letter at a time.
-    // Any difference will open a new change, until two identical characters are found.
-    // The change will be closed, and the necessary ANSI codes will be prepended and appended.
-    // If a modified ANSI code is found in target, a change will be forced with at least one character.
-    for (let i = 0; i < strippedTarget.length; i++) {
-      // If different letter or different preceding ANSI code is found, a change is needed
-      if (strippedTarget[i] !== strippedOriginal[i] || originalCodeMap[i] !== targetCodeMap[i]) {
-        if (changeBuffer) {
-          // A change is already open, add to it
-          if (targetCodeArray.indexOf(i) !== -1) {
-            changeBuffer.text += targetCodeMap[i];
-          }
-          changeBuffer.text += strippedTarget[i];
-        } else {
-          // A new change needs to be created
-          changeBuffer = { text: strippedTarget[i], index: i, line };
-          // Prepend the last ANSI code, this is necessary to keep the terminal style
-          let codeToPrepend = null;
-          for (let k = 0; k <= targetCodeArray.length; k++) {
-            const codePosition = targetCodeArray[k];
-            if (codePosition > i) {
-              break;
-            }
-            if (codePosition <= i) {
-              codeToPrepend = targetCodeMap[codePosition];
-            }
-          }
-          changeBuffer.text = codeToPrepend
-            ? codeToPrepend + changeBuffer.text
-            : RESET_STYLE + changeBuffer.text;
-        }
-      } else {
-        if (changeBuffer) {
-          // If the next character is different, just keep going...
-          // Minimizes needless changes for duplicate characters
-          if (strippedTarget[i + 1] && strippedTarget[i + 1] !== strippedOriginal[i + 1]) {
-            if (targetCodeArray.indexOf(i) !== -1) {
-              changeBuffer.text += targetCodeMap[i];
-            }
-            changeBuffer.text += strippedTarget[i];
-          } else {
-            // Close the change.
-            // Search for the closest closing ANSI and append it,
-            // with all of the characters leading up to it.
-            for (const codePosition of targetCodeArray) {
-              if (codePosition >= i) {
-                // Equal, as the current index is not included in the change
-                changeBuffer.text +=
-                  strippedTarget.substring(i, codePosition) + targetCodeMap[codePosition];
-                break;
-              }
-            }
-            // Add the change if it's not useless
-            if (stripAnsi(changeBuffer.text).trim() !== "") {
-              changes.push(changeBuffer);
-            }
-            changeBuffer = null;
-          }
+    // The style of the terminal at the end of the open change
+    let style: IStyle = {};
+
+    const changed = (i: number) =>
+      i < targetColumns.length && !columnEquals(originalColumns[i], targetColumns[i]);
+
+    // Compare originalColumns and targetColumns, one column at a time.
+    // Any difference in the character or its style will open a new change, until two identical
+    // columns are found. Each column is preceded by the SGR codes needed to reach its style,
+    // and the change is closed by returning to the default style.
+    // The second column of a wide character is null, and is written along with the first.
+    for (let i = 0; i < targetColumns.length; i++) {
+      // If the next column is different, just keep going...
+      // Minimizes needless changes for duplicate characters
+      if (changed(i) || (changeBuffer && changed(i + 1))) {
+        if (!changeBuffer) {
+          changeBuffer = { text: "", index: i, line };
         }
+        const column = targetColumns[i];
+        changeBuffer.text +=
+          column.codes + styleTransition(style, column.style) + (column.char || "");
+        style = column.style;
+      } else if (changeBuffer) {
+        changes.push(closeChange(changeBuffer, style));
+        changeBuffer = null;
+        style = {};
       }
     }
 
-    // If the end was reached, the change still needs to be closed
-    // No ANSI code searching is necessary, just check the last + 1 index
+    // If the end was reached, the change still needs to be closed along with any trailing codes
     if (changeBuffer) {
-      if (targetCodeArray.indexOf(strippedTarget.length) !== -1) {
-        changeBuffer.text += targetCodeMap[strippedTarget.length];
-      }
-      // Add the change if it's not useless
-      if (stripAnsi(changeBuffer.text).trim() !== "") {
-        changes.push(changeBuffer);
-      }
-      changeBuffer = null;
+      changeBuffer.text += trailingCodes;
+      changes.push(closeChange(changeBuffer, style));
     }
 
     // If the target is shorter, the rest of the line needs to be erased
-    if (strippedTarget.length < strippedOriginal.length) {
-      if (changes.length > 0) {
-        changes[changes.length - 1].text += ERASE_LINE_END;
+    // It can be appended to the last change if that one ends the line
+    if (targetColumns.length < originalColumns.length) {
+      const lastChange = changes[changes.length - 1];
+      if (lastChange && lastChange.index + textWidth(lastChange.text) === targetColumns.length) {
+        lastChange.text += ERASE_LINE_END;
       } else {
         changes.push({
-          index: strippedTarget.length,
+          index: targetColumns.length,
           line,
           text: ERASE_LINE_END
         });
@@ -181,3 +102,66 @@ export class ChangeAlgorithm {
     return changes;
   }
 }
+
+/** Returns the terminal to its default style at the end of a change */
+function closeChange(change: IChange, style: IStyle): IChange {
+  change.text += styleTransition(style, {});
+  return change;
+}
+
+function columnEquals(a: IColumn, b: IColumn): boolean {
+  return !!a && !!b && a.char === b.char && a.codes === b.codes && styleEquals(a.style, b.style);
+}
+
+/**
+ * Splits a string into terminal columns. Each column holds the grapheme that
+ * starts there, or null for the second column of a wide grapheme, and the
+ * style that SGR and hyperlink codes have built up to that point. Other escape
+ * codes are kept with the grapheme that follows them.
+ */
+function toColumns(text: string): { columns: IColumn[]; trailingCodes: string } {
+  const columns: IColumn[] = [];
+  let style: IStyle = {};
+  let codes = "";
+
+  const pushText = (part: string) => {
+    for (const grapheme of splitGraphemes(part)) {
+      const width = graphemeWidth(grapheme);
+      if (width === 0) {
+        // Zero-width characters can't be addressed, keep them with the previous grapheme
+        let previous = columns.length - 1;
+        while (previous >= 0 && columns[previous].char === null) {
+          previous--;
+        }
+        if (previous >= 0) {
+          columns[previous].char += grapheme;
+        }
+        continue;
+      }
+      columns.push({ char: grapheme, style, codes });
+      codes = "";
+      if (width === 2) {
+        columns.push({ char: null, style, codes: "" });
+      }
+    }
+  };
+
+  // ANSI Regex that fetches all ANSI codes in a string, in sequential order
+  const ar = escapeCodeRegex();
+  let last = 0;
+  let match = ar.exec(text);
+  while (match !== null) {
+    pushText(text.slice(last, match.index));
+    const applied = applyCode(style, match[0]);
+    if (applied) {
+      style = applied;
+    } else {
+      codes += match[0];
+    }
+    last = ar.lastIndex;
+    match = ar.exec(text);
+  }
+  pushText(text.slice(last));
+
+  return { columns, trailingCodes: codes };
+}
@@ -0,0 +1,59 @@
+import test from "ava";
+
+import { Compositor } from "./Compositor";
+import { VirtualTerminal } from "./VirtualTerminal";
+
+async function regions() {
+  const screen = new VirtualTerminal(40, 10);
+  const compositor = new Compositor({ mode: "inline" });
+  const status = compositor.createRegion(1);
+  const downloads = compositor.createRegion();
+  const uploads = compositor.createRegion();
+  await status.start({ output: screen });
+  await downloads.start();
+  await uploads.start();
+  return { downloads, screen, status, uploads };
+}
+
+test("renders the regions by their order, then in the order they started", async t => {
+  const { downloads, screen, status, uploads } = await regions();
+  await status.update("3 files left");
+  await uploads.update("Uploading b");
+  await downloads.update(["Downloading a", "Downloading c"]);
+  t.deepEqual(screen.getLines(), ["Downloading a", "Downloading c", "Uploading b", "3 files left"]);
+
+  await downloads.append("Downloading d");
+  await status.update("4 files left");
+  t.deepEqual(screen.getLines(), [
+    "Downloading a",
+    "Downloading c",
+    "Downloading d",
+    "Uploading b",
+    "4 files left"
+  ]);
+  [downloads, uploads, status].forEach(region => region.destroy());
+});
+
+test("prints the lines of a region that stops above the others", async t => {
+  const { downloads, screen, status, uploads } = await regions();
+  await downloads.update("Downloaded a");
+  await uploads.update("Uploading b");
+  await status.update("1 file left");
+
+  await downloads.stop();
+  await status.flush();
+  t.deepEqual(screen.getLines(), ["Downloaded a", "Uploading b", "1 file left"]);
+
+  await uploads.stop(false);
+  await status.update("Done");
+  t.deepEqual(
+    screen.getLines(),
+    ["Downloaded a", "Done"],
+    "lines that aren't committed are erased"
+  );
+
+  await status.stop();
+  t.deepEqual(screen.getLines(), ["Downloaded a", "Done"]);
+  t.is(screen.cursor.line, 2, "the session ends with the last region");
+  [downloads, uploads, status].forEach(region => region.destroy());
+});
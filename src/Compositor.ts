@@ -0,0 +1,125 @@
+import { v4 as uuid } from "uuid";
+
+import { DynamicTerminal } from "./DynamicTerminal";
+import { OutputStream } from "./DynamicTerminalThread";
+import { writeThrough } from "./OutputInterceptor";
+import { WorkerMessage } from "./Protocol";
+import { RegionTransport } from "./RegionTransport";
+import { createTransport, ITransport, TransportMode } from "./Transport";
+
+// Separate copies of the package in node_modules still share the same compositor
+const SHARED: unique symbol = Symbol.for("dynamic-terminal.compositor");
+
+/**
+ * Lets several DynamicTerminal instances share the terminal, such as two
+ * libraries inside the same CLI. A single worker owns the terminal and renders
+ * one session, in which each instance is a region with its own slot. Regions
+ * are updated on their own, without knowing about each other.
+ *
+ * The session is started by the first region that is started, with its
+ * options, and is stopped once the last region stops. A region that is stopped
+ * while others remain prints its committed lines above the session.
+ *
+ * ```javascript
+ * const compositor = new Compositor();
+ * const downloads = compositor.createRegion();
+ * const status = compositor.createRegion(1); // always rendered underneath
+ * ```
+ */
+export class Compositor {
+  /**
+   * Returns the compositor that is shared by the whole process. It's used by
+   * DynamicTerminal instances that are created with `compositor: true`.
+   */
+  public static shared(): Compositor {
+    // Kept in the global scope, without declaring it in the published typings
+    const scope = global as typeof global & { [SHARED]?: Compositor };
+    if (!scope[SHARED]) {
+      scope[SHARED] = new Compositor();
+    }
+    return scope[SHARED];
+  }
+
+  private mode: TransportMode;
+  private transport: ITransport = null; // The worker, shared by every region
+  private connections: RegionTransport[] = [];
+  private output: OutputStream = null; // Where the worker's output is forwarded to, if anywhere
+
+  /**
+   * @param options Where the shared render loop runs, see IWorkerOptions
+   */
+  constructor(options: { mode?: TransportMode } = {}) {
+    this.mode = options.mode || "process";
+  }
+
+  /**
+   * Creates a DynamicTerminal that renders into a region of the shared session
+   *
+   * @param order Regions with a lower order are rendered above, 0 by default
+   */
+  public createRegion(order: number = 0): DynamicTerminal {
+    return new DynamicTerminal({ compositor: this, order });
+  }
+
+  /**
+   * Connects a new region to the shared worker, which is started if necessary.
+   * Every message that is sent through the connection is addressed to the region.
+   */
+  public connect(order: number = 0): ITransport {
+    if (!this.transport || !this.transport.isConnected()) {
+      const transport = createTransport(this.mode);
+      transport.on("message", msg => this.onMessage(msg));
+      transport.once("disconnect", () => {
+        if (this.transport !== transport) {
+          return; // Released when the last region disconnected
+        }
+        this.transport = null;
+        this.output = null;
+        this.connections.forEach(region => region.emit("disconnect"));
+        this.connections = [];
+      });
+      this.transport = transport;
+    }
+
+    const connection: RegionTransport = new RegionTransport(
+      this.transport,
+      { id: uuid(), order },
+      () => this.release(connection)
+    );
+    this.connections.push(connection);
+    return connection;
+  }
+
+  /**
+   * Forwards the worker's output to a stream of this process. Only the region
+   * that starts the session decides where it's rendered, others are ignored.
+   */
+  public forward(output: OutputStream) {
+    if (!this.output) {
+      this.output = output;
+    }
+  }
+
+  private onMessage(msg: WorkerMessage) {
+    if (msg.status === "output") {
+      if (this.output) {
+        writeThrough(this.output, msg.data);
+      }
+      return;
+    }
+    if (msg.status === "stopped" && msg.ended) {
+      this.output = null;
+    }
+    this.connections.forEach(region => region.emit("message", msg));
+  }
+
+  /** Destroys the shared worker once the last region has disconnected */
+  private release(connection: RegionTransport) {
+    this.connections = this.connections.filter(other => other !== connection);
+    if (this.connections.length === 0 && this.transport) {
+      this.transport.destroy();
+      this.transport = null;
+      this.output = null;
+    }
+  }
+}
@@ -1,9 +1,55 @@
 import chalk from "chalk";
-import cluster from "cluster";
-import path from "path";
 import { v4 as uuid } from "uuid";
 
-import { CROSS, ILine, IOptions, SPINNER, TICK } from "./DynamicTerminalThread";
+import { Compositor } from "./Compositor";
+import {
+  CROSS,
+  IForwardedOutput,
+  ILine,
+  ILinePatch,
+  IOptions,
+  ITerminalSize,
+  OutputStream,
+  PROGRESS,
+  SPINNER,
+  TICK
+} from "./DynamicTerminalThread";
+import { addExitHandler } from "./ExitHandler";
+import { InputStream, Keyboard, KeypressListener } from "./Keyboard";
+import { LineHandle } from "./LineHandle";
+import { OutputInterceptor, writeThrough } from "./OutputInterceptor";
+import {
+  Command,
+  CommandName,
+  ICommands,
+  IErrorReply,
+  PROTOCOL_VERSION,
+  Reply,
+  WorkerMessage
+} from "./Protocol";
+import { getColourCodes } from "./Spinners";
+import { TerminalError, TerminalErrorCode } from "./TerminalError";
+import { createTransport, ITransport, TransportMode } from "./Transport";
+
+export interface IWorkerOptions {
+  /**
+   * Where the render loop runs. "process" (default) forks a child process,
+   * "thread" starts a lighter worker thread and "inline" renders in the
+   * current process, which is needed where neither is available (bundlers,
+   * Electron, sandboxes, existing cluster setups).
+   */
+  mode?: TransportMode;
+
+  /**
+   * Renders into a region of a compositor's session instead of starting a
+   * worker of its own, so that several instances can share the terminal.
+   * `true` uses the compositor that is shared by the whole process.
+   */
+  compositor?: Compositor | boolean;
+
+  /** The slot of the compositor region, lower orders are rendered above. 0 by default */
+  order?: number;
+}
 
 /**
  * Terminal Tasker
@@ -12,19 +58,41 @@ import { CROSS, ILine, IOptions, SPINNER, TICK } from "./DynamicTerminalThread";
  * An optimized terminal logging utility that lets you keep track of several
  * lines of output, updating them dynamically with ANSI colour codes
  * and spinners.
+ *
+ * Every command is answered by the worker. When a command fails, its promise
+ * is rejected with a TerminalError, whose code tells why.
  */
 export class DynamicTerminal {
   public static SPINNER = SPINNER;
+  public static PROGRESS = PROGRESS;
   public static TICK = chalk.green(TICK);
   public static CROSS = chalk.red(CROSS);
   public static TICK_RAW = TICK;
   public static CROSS_RAW = CROSS;
 
+  /** The message of the last error, which the failed promise was rejected with */
   public lastError: string;
 
-  private worker: cluster.Worker = null;
+  private worker: ITransport = null;
+  private mode: TransportMode;
+  private compositor: Compositor = null;
+  private order: number;
+  private output: OutputStream = null; // A custom stream that the worker's output is forwarded to
+  private wasRaw: boolean = null; // Used to restore input if it was disabled by this process
+  private interceptor: OutputInterceptor = null;
+  private pending = new Map<string, (msg: Reply | IErrorReply) => void>(); // Replies that are awaited, by uuid
+  private sizeSource: OutputStream = null; // A terminal whose size is passed on to a remote worker
+  private input: InputStream = process.stdin;
+  private keyboard: Keyboard = null;
+  private removeExitHandler: () => void = null;
+  private terminal: OutputStream = null; // The terminal that a remote worker renders to
+  private restoreSequence = ""; // Undoes the session's changes to the terminal, if the worker can't
 
-  constructor() {
+  constructor(options: IWorkerOptions = {}) {
+    this.mode = options.mode || "process";
+    this.compositor =
+      options.compositor === true ? Compositor.shared() : options.compositor || null;
+    this.order = options.order || 0;
     this.startWorker();
   }
 
@@ -32,17 +100,32 @@ export class DynamicTerminal {
   public startWorker() {
     if (!this.worker) {
       try {
-        const clusterSettings = { ...cluster.settings }; // create a copy
-        cluster.setupMaster({
-          exec: path.join(__dirname, "/DynamicTerminalThread.js")
-        });
-        this.worker = cluster.fork();
-        cluster.setupMaster(clusterSettings); // revert settings
+        this.worker = this.compositor
+          ? this.compositor.connect(this.order)
+          : createTransport(this.mode);
         if (!this.worker || !this.worker.isConnected()) {
           throw null;
         }
-        this.worker.setMaxListeners(32); // Fast updates may exceed the default limit
-        this.worker.once("disconnect", () => (this.worker = null));
+        this.worker.once("disconnect", () => {
+          this.worker = null;
+          // Nothing is left to answer the commands that are still waiting
+          this.pending.forEach((settle, id) =>
+            settle({
+              error: { code: "WorkerNotStarted", message: "The worker has exited" },
+              status: "error",
+              uuid: id
+            })
+          );
+        });
+        this.worker.on("message", (msg: WorkerMessage) => {
+          if (msg.status === "output") {
+            if (this.output) {
+              writeThrough(this.output, msg.data);
+            }
+          } else if (msg.uuid && this.pending.has(msg.uuid)) {
+            this.pending.get(msg.uuid)(msg);
+          }
+        });
       } catch (err) {
         throw new Error("Could not start a child process!\n" + err.message || err);
       }
@@ -55,19 +138,102 @@ export class DynamicTerminal {
    * that was written after starting the session.
    *
    * @param {IOptions} options Options that are used to start the writer thread
-   * @returns {Promise} Promise that resolved into a boolean with success status
+   * @returns {Promise} Promise that resolves into true, or rejects with a TerminalError
    */
-  public async start(options?: IOptions): Promise<boolean> {
+  public async start(options: IOptions = {}): Promise<boolean> {
     const worker = this.worker;
     if (!worker) {
-      this.lastError = "No worker! Try restarting the worker";
-      return false;
+      throw this.fail("WorkerNotStarted", "No worker! Try restarting the worker");
     }
-    const response = await this.send({ cmd: "START", options });
-    if (response && response.status === "started") {
-      return true;
+    const { output, input, interceptOutput, spinnerColour, ...rest } = options;
+    // A function can't be sent to a remote worker, the codes that it adds are sent instead
+    const spinnerCodes = worker.remote && spinnerColour ? getColourCodes(spinnerColour) : undefined;
+    if (spinnerCodes === null) {
+      throw this.fail(
+        "InvalidArgument",
+        "spinnerColour may only add codes around the text, such as a chalk colour, " +
+          `in the "${this.mode}" mode`
+      );
     }
-    return false;
+    let forwarded: IForwardedOutput;
+    let size: ITerminalSize;
+    this.output = null;
+    this.terminal = null;
+    this.input = input || process.stdin;
+
+    // The standard streams are shared with a remote worker if it runs in a
+    // separate process, anything else must be written to by this process
+    let target: IOptions["output"] = output;
+    if (worker.remote) {
+      const stream =
+        output === "stderr"
+          ? process.stderr
+          : output && output !== "stdout"
+          ? output
+          : process.stdout;
+      this.terminal = stream;
+      if (worker.sharesStdio && stream === process.stdout) {
+        target = "stdout";
+      } else if (worker.sharesStdio && stream === process.stderr) {
+        target = "stderr";
+      } else {
+        this.output = stream;
+        target = undefined;
+        forwarded = {
+          columns: stream.columns,
+          isTTY: !!stream.isTTY,
+          rows: stream.rows,
+          standard: stream === process.stdout || stream === process.stderr
+        };
+      }
+
+      // The worker's own view of the terminal may be missing or outdated, follow the real size
+      if (stream.isTTY && stream.columns > 0 && !this.sizeSource) {
+        size = { columns: stream.columns, rows: stream.rows };
+        this.sizeSource = stream;
+        stream.on("resize", this.onResize);
+      }
+    }
+
+    // The output of a shared worker is forwarded by the compositor
+    if (this.compositor && this.output) {
+      this.compositor.forward(this.output);
+      this.output = null;
+    }
+
+    // The thread can't access the terminal's input, it must be disabled here
+    if (!worker.sharesStdio && rest.disableInput && process.stdin.isTTY && this.wasRaw === null) {
+      this.wasRaw = process.stdin.isRaw;
+      process.stdin.setRawMode(true);
+    }
+
+    let response: Reply<"START">;
+    try {
+      response = await this.send("START", {
+        forwarded,
+        options: {
+          ...rest,
+          output: target,
+          spinnerColour: worker.remote ? undefined : spinnerColour
+        },
+        size,
+        spinnerCodes,
+        version: PROTOCOL_VERSION
+      });
+    } catch (err) {
+      this.restoreOutput();
+      this.restoreInput();
+      throw err;
+    }
+
+    this.restoreSequence = response.restore || "";
+    // Kept until destroy(), adding it again is harmless
+    this.removeExitHandler = addExitHandler(this.onExit);
+    if (interceptOutput && !this.interceptor) {
+      this.interceptor = new OutputInterceptor(text => this.log(text).catch(() => undefined));
+      this.interceptor.intercept([process.stdout, process.stderr]);
+    }
+    return true;
   }
 
   /**
@@ -78,19 +244,17 @@ export class DynamicTerminal {
    * the child process that can keep node from closing.
    *
    * @param {boolean} commit Whether written text should persist
-   * @returns {Promise} Promise that resolved into a boolean with success status
+   * @returns {Promise} Promise that resolves into true, or rejects with a TerminalError
    */
   public async stop(commit: boolean = true): Promise<boolean> {
-    const worker = this.worker;
-    if (!worker) {
-      this.lastError = "No worker! Try restarting the worker";
-      return false;
+    this.restoreOutput();
+    this.restoreSequence = "";
+    try {
+      await this.send("STOP", { commit });
+    } finally {
+      this.restoreInput();
     }
-    const response = await this.send({ cmd: "STOP", commit });
-    if (response && response.status === "stopped") {
-      return true;
-    }
-    return false;
+    return true;
   }
 
   /**
@@ -98,8 +262,13 @@ export class DynamicTerminal {
    * terminate, closing all open handles and event listeners.
    */
   public destroy(): boolean {
+    this.restoreOutput();
+    if (this.removeExitHandler) {
+      this.removeExitHandler();
+      this.removeExitHandler = null;
+    }
     if (this.worker) {
-      this.worker.send({ cmd: "DESTROY" });
+      this.worker.destroy();
       this.worker = null;
       return true;
     }
@@ -115,37 +284,66 @@ export class DynamicTerminal {
    * however the changes still ned to be pushed via this method.
    */
   public async update(text: string | ILine | string[] | ILine[]): Promise<boolean> {
-    const worker = this.worker;
-    if (!worker) {
-      this.lastError = "No worker! Try restarting the worker";
-      return false;
-    }
-    const response = await this.send({ cmd: "UPDATE", text });
-    if (response && response.status === "updated") {
-      return true;
-    }
-    return false;
+    await this.send("UPDATE", { text });
+    return true;
   }
 
   /**
-   * Adds a new line to the render queue
+   * Adds new lines to the render queue, and returns a handle for each of them.
+   * Handles can change or remove their line later on, sending only the changes.
    *
    * @param {string | ILine | string[] | ILine[]} text May be a string with new lines,
    * an array of strings, or an array of Line objects. Strings will automatically be
-   * converted to Line objects. Objects are easy to pass to functions for update-by-reference,
-   * however the changes still ned to be pushed via this method.
+   * converted to Line objects. A string with new lines is a single line for its handle.
+   * @returns {Promise} Promise that resolves into a handle for each appended string or
+   * Line object
    */
-  public async append(text: string | ILine | string[] | ILine[]): Promise<boolean> {
-    const worker = this.worker;
-    if (!worker) {
-      this.lastError = "No worker! Try restarting the worker";
-      return false;
-    }
-    const response = await this.send({ cmd: "APPEND", text });
-    if (response && response.status === "appended") {
-      return true;
-    }
-    return false;
+  public async append(text: string | ILine | string[] | ILine[]): Promise<LineHandle[]> {
+    // Each line is given an id, which the handle uses to address it
+    const items: Array<string | ILine> = Array.isArray(text) ? text : [text];
+    const lines: ILine[] = items.map(item => {
+      const line = typeof item === "string" ? { text: item } : item;
+      return { ...line, id: line.id !== undefined ? line.id : uuid() };
+    });
+
+    await this.send("APPEND", { text: lines });
+    return lines.map(line => new LineHandle(this, line.id));
+  }
+
+  /**
+   * Changes the lines with the given id, usually through a LineHandle. Only the
+   * changes are sent to the worker.
+   *
+   * @param {string} id The id of the lines to change
+   * @param {ILinePatch} changes The new text and/or indent, or `remove: true`
+   */
+  public async patch(id: string, changes: ILinePatch): Promise<boolean> {
+    await this.send("PATCH", { id, changes });
+    return true;
+  }
+
+  /**
+   * Updates the progress of the lines with the given id. Only the new value is sent
+   * to the worker, which is much cheaper than pushing the entire render queue.
+   *
+   * @param {string} id The id of the line, which must already have a progress
+   * @param {number} current The new progress value
+   * @param {number} total A new total, the previous total is kept if omitted
+   */
+  public async progress(id: string, current: number, total?: number): Promise<boolean> {
+    await this.send("PROGRESS", { id, current, total });
+    return true;
+  }
+
+  /**
+   * Prints permanent text above the session, that will scroll up with the rest
+   * of the terminal. The session stays pinned underneath and is redrawn.
+   *
+   * @param {string} text The text to print, may contain new lines
+   */
+  public async log(text: string): Promise<boolean> {
+    await this.send("LOG", { text });
+    return true;
   }
 
   /**
@@ -156,16 +354,43 @@ export class DynamicTerminal {
    * remove ghost text or bugs that were not caught by the change algorithm.
    */
   public async forceRender(force: boolean): Promise<boolean> {
-    const worker = this.worker;
-    if (!worker) {
-      this.lastError = "No worker! Try restarting the worker";
-      return false;
-    }
-    const response = await this.send({ cmd: "RENDER", force });
-    if (response && response.status === "rendered") {
-      return true;
+    await this.send("RENDER", { force });
+    return true;
+  }
+
+  /**
+   * Renders any pending changes immediately, instead of waiting for the next
+   * frame allowed by the `maxFps` option.
+   */
+  public async flush(): Promise<boolean> {
+    await this.send("FLUSH", {});
+    return true;
+  }
+
+  /**
+   * Changes the size of the terminal and repaints the session. The size of a
+   * TTY is followed automatically, this is for streams that don't emit
+   * "resize" events, such as a remote terminal.
+   */
+  public async resize(columns: number, rows: number): Promise<boolean> {
+    await this.send("RESIZE", { columns, rows });
+    return true;
+  }
+
+  /**
+   * Calls a listener for every key that is pressed, until the returned function
+   * is called. Keys are read from the `input` option, stdin by default, which is
+   * put in raw mode while anyone is listening. Listeners are removed when the
+   * session is stopped.
+   *
+   * @param onStop Called if the listener is removed because the session was stopped
+   * @returns {Function} Stops listening
+   */
+  public onKeypress(listener: KeypressListener, onStop?: () => void): () => void {
+    if (!this.keyboard) {
+      this.keyboard = new Keyboard(this.input);
     }
-    return false;
+    return this.keyboard.listen(listener, onStop);
   }
 
   /**
@@ -173,47 +398,108 @@ export class DynamicTerminal {
    * as the worker thread must be contacted.
    */
   public async getRenderQueue(): Promise<ILine[]> {
-    const worker = this.worker;
-    if (!worker) {
-      this.lastError = "No worker! Try restarting the worker";
-      return [];
+    const response = await this.send("RENDER_QUEUE", {});
+    return response.data;
+  }
+
+  /** Removes the output interceptor and keypress listeners, if there were any */
+  private restoreOutput() {
+    if (this.keyboard) {
+      this.keyboard.close();
+      this.keyboard = null;
     }
-    const response = await this.send({ cmd: "RENDER_QUEUE" });
-    if (response && response.status === "rendered") {
-      return response.data;
+    if (this.interceptor) {
+      this.interceptor.restore();
+      this.interceptor = null;
+    }
+    if (this.sizeSource) {
+      this.sizeSource.removeListener("resize", this.onResize);
+      this.sizeSource = null;
+    }
+  }
+
+  /** Takes stdin out of raw mode, if it was put in raw mode by start() */
+  private restoreInput() {
+    if (this.wasRaw !== null) {
+      process.stdin.setRawMode(this.wasRaw);
+      this.wasRaw = null;
     }
-    return [];
   }
 
-  /** Sends a message with a uuid tag, and resolves when the correct UUID is returned */
-  private async send(data: any, timeout: number = 10000): Promise<any> {
+  /**
+   * Leaves the terminal usable when the process exits during a session, on
+   * exit, SIGINT, SIGTERM or an uncaught exception. A remote worker may be
+   * killed before it can restore the cursor, so it's done here as well. An
+   * inline worker restores the terminal itself.
+   */
+  private onExit = () => {
+    this.restoreOutput();
+    this.restoreInput();
+    if (this.terminal && this.restoreSequence && this.terminal.isTTY) {
+      writeThrough(this.terminal, this.restoreSequence);
+    }
+    this.restoreSequence = "";
+  };
+
+  /** Passes the new size of the terminal on to the worker */
+  private onResize = () => {
+    if (this.sizeSource) {
+      this.resize(this.sizeSource.columns, this.sizeSource.rows).catch(() => undefined);
+    }
+  };
+
+  /**
+   * Sends a command with a uuid tag, and resolves with the reply that carries
+   * the same uuid. Rejects with a TerminalError if the command fails, or if
+   * nothing replies in time.
+   */
+  private send<K extends CommandName>(
+    cmd: K,
+    data: ICommands[K],
+    timeout: number = 10000
+  ): Promise<Reply<K>> {
     const worker = this.worker;
+    if (!worker) {
+      return Promise.reject(this.fail("WorkerNotStarted", "No worker! Try restarting the worker"));
+    }
     return new Promise((resolve, reject) => {
       const id = uuid();
 
       let timeoutTimer: NodeJS.Timeout;
 
-      const handler = msg => {
-        if (msg.uuid === id) {
-          worker.removeListener("message", handler);
-          clearTimeout(timeoutTimer);
-          resolve(msg);
+      // A single message listener dispatches replies, as updates may be sent faster
+      // than they are rendered
+      this.pending.set(id, msg => {
+        this.pending.delete(id);
+        clearTimeout(timeoutTimer);
+        if (msg.status === "error") {
+          reject(this.fail(msg.error.code, msg.error.message));
+        } else {
+          resolve(msg as Reply<K>);
         }
-      };
+      });
 
       timeoutTimer = setTimeout(() => {
-        worker.removeListener("message", handler);
-        this.lastError = "Communication timeout";
-        resolve(null);
+        this.pending.delete(id);
+        reject(this.fail("Timeout", `The worker did not reply to ${cmd} within ${timeout}ms`));
       }, timeout);
       timeoutTimer.unref();
 
-      worker.on("message", handler);
-      worker.send({ ...data, uuid: id }, err => {
-        if (err) {
-          reject(err);
+      // The data of a generic command can't be narrowed to its member of the union
+      const command = { ...data, cmd, uuid: id };
+      worker.send(command as Command, err => {
+        if (err && this.pending.has(id)) {
+          this.pending.delete(id);
+          clearTimeout(timeoutTimer);
+          reject(this.fail("WorkerError", err.message));
         }
       });
     });
   }
+
+  /** Keeps the message in lastError as well, for code that checks it instead of catching */
+  private fail(code: TerminalErrorCode, message: string): TerminalError {
+    this.lastError = message;
+    return new TerminalError(code, message);
+  }
 }
@@ -0,0 +1,296 @@
+import test from "ava";
+import { PassThrough } from "stream";
+
+import { DynamicTerminal } from "./DynamicTerminal";
+import { IOptions } from "./DynamicTerminalThread";
+import { VirtualTerminal } from "./VirtualTerminal";
+
+/** A screen that also keeps what was written to it, to check what a frame changed */
+class RecordingTerminal extends VirtualTerminal {
+  public written = "";
+
+  public feed(data: string) {
+    this.written += data;
+    super.feed(data);
+  }
+
+  /** Returns what was written since the last call */
+  public take(): string {
+    const written = this.written;
+    this.written = "";
+    return written;
+  }
+}
+
+/** Starts an inline session, where the screen is up to date once a Promise resolves */
+async function session(columns: number, rows: number, options: IOptions = {}) {
+  const screen = new RecordingTerminal(columns, rows);
+  const dt = new DynamicTerminal({ mode: "inline" });
+  await dt.start({ ...options, output: screen });
+  return { dt, screen };
+}
+
+/** Renders lines at a width, then resizes the screen through the other widths */
+async function renderResized(lines: string[], widths: number[]): Promise<string[]> {
+  const { dt, screen } = await session(widths[0], 30);
+  await dt.update(lines);
+  for (const width of widths.slice(1)) {
+    screen.resize(width, 30);
+    await dt.flush();
+  }
+  const rendered = screen.getLines();
+  dt.destroy();
+  return rendered;
+}
+
+test("shows the last rows that fit with the tail overflow", async t => {
+  const { dt, screen } = await session(20, 3, { overflow: "tail" });
+  await dt.update(["1", "2", "3", "4", "5"]);
+  t.deepEqual(screen.getLines(), ["3", "4", "5"]);
+  t.deepEqual(screen.getScrollback(), []);
+  await dt.update(["x"]);
+  t.deepEqual(screen.getLines(), ["x"]);
+  dt.destroy();
+});
+
+test("shows the first rows and a footer with the head overflow", async t => {
+  const { dt, screen } = await session(20, 3, { overflow: "head" });
+  await dt.update(["1", "2", "3", "4", "5"]);
+  t.deepEqual(screen.getLines(), ["1", "2", "+3 more"]);
+  await dt.update(["x"]);
+  t.deepEqual(screen.getLines(), ["x"]);
+  dt.destroy();
+});
+
+test("renders lines and leaves the cursor after the last one", async t => {
+  const { dt, screen } = await session(20, 5);
+  await dt.update(["Hello", "World"]);
+  t.deepEqual(screen.getLines(), ["Hello", "World"]);
+  t.deepEqual(screen.cursor, { line: 1, column: 5 });
+  dt.destroy();
+});
+
+test("only writes the characters that changed", async t => {
+  const { dt, screen } = await session(20, 5, { synchronizedOutput: false });
+  await dt.update(["Hello", "World"]);
+  screen.take();
+
+  await dt.update(["Hello", "Word!"]);
+  t.deepEqual(screen.getLines(), ["Hello", "Word!"]);
+  t.is(screen.take(), "\x1B[2Dd!", "moves back over the unchanged cells");
+
+  await dt.update(["Hello", "Word!"]);
+  t.is(screen.take(), "");
+  dt.destroy();
+});
+
+test("erases the rows of removed lines", async t => {
+  const { dt, screen } = await session(20, 5);
+  await dt.update(["one", "two", "three"]);
+  await dt.update(["one"]);
+  t.deepEqual(screen.getLines(), ["one"]);
+  t.deepEqual(screen.cursor, { line: 0, column: 3 });
+  dt.destroy();
+});
+
+test("counts two cells for wide characters", async t => {
+  const { dt, screen } = await session(20, 5);
+  await dt.update(["中文 a", "👍🏽b"]);
+  t.deepEqual(screen.getLines(), ["中文 a", "👍🏽b"]);
+  t.deepEqual(screen.cursor, { line: 1, column: 3 });
+
+  await dt.update(["中b"]);
+  await dt.update(["ab"]);
+  t.deepEqual(screen.getLines(), ["ab"]);
+  t.is(screen.getCell(0, 1).char, "b");
+  dt.destroy();
+});
+
+test("moves a wide character that doesn't fit to the next row", async t => {
+  const { dt, screen } = await session(5, 5);
+  await dt.update("abcd中");
+  t.deepEqual(screen.getLines(), ["abcd", "中"]);
+  t.deepEqual(screen.cursor, { line: 1, column: 2 });
+  dt.destroy();
+});
+
+test("lays the lines out again when the width changes", async t => {
+  const { dt, screen } = await session(30, 10);
+  await dt.update("the quick brown fox jumps over the lazy dog");
+  screen.resize(12, 10);
+  await dt.flush();
+  t.deepEqual(screen.getLines(), ["the quick", "brown fox", "jumps over", "the lazy dog"]);
+  screen.resize(7, 10);
+  await dt.flush();
+  t.deepEqual(screen.getLines(), [
+    "the",
+    "quick",
+    "brown",
+    "fox",
+    "jumps",
+    "over",
+    "the",
+    "lazy",
+    "dog"
+  ]);
+  dt.destroy();
+});
+
+test("renders a fullscreen session on the alternate screen", async t => {
+  const { dt, screen } = await session(20, 4, { fullscreen: true });
+  t.true(screen.take().includes("\x1B[?1049h"), "enters the alternate screen");
+  await dt.update(["a", "b", "c", "d", "e"]);
+  t.true(screen.alternateScreen);
+  t.deepEqual(screen.getLines(), ["b", "c", "d", "e"]);
+  t.deepEqual(screen.cursor, { line: 3, column: 1 });
+
+  await dt.log("logged");
+  await dt.update(["a", "B"]);
+  t.deepEqual(screen.getLines(), ["a", "B"]);
+
+  screen.take();
+  await dt.stop();
+  t.false(screen.alternateScreen);
+  t.true(screen.take().includes("\x1B[?1049llogged\na\nB\n"), "prints what persists after leaving");
+  t.deepEqual(screen.getLines(), ["logged", "a", "B"]);
+  dt.destroy();
+});
+
+test("leaves nothing on the main screen when a fullscreen session isn't committed", async t => {
+  const { dt, screen } = await session(20, 4);
+  await dt.log("before");
+  await dt.stop();
+  await dt.start({ fullscreen: true, output: screen });
+  await dt.update(["a", "b"]);
+  await dt.log("logged");
+  screen.take();
+  await dt.stop(false);
+  t.true(screen.take().includes("\x1B[?1049llogged\n"), "only prints the logs");
+  t.deepEqual(screen.getLines(), ["before", "logged"]);
+  dt.destroy();
+});
+
+test("commits the rows that scroll out with the scroll overflow", async t => {
+  const { dt, screen } = await session(20, 3, { overflow: "scroll" });
+  await dt.update(["1", "2", "3", "4", "5"]);
+  t.deepEqual(screen.getScrollback(), ["1", "2"]);
+  t.deepEqual(screen.getLines(), ["3", "4", "5"]);
+  t.deepEqual((await dt.getRenderQueue()).map(line => line.text), ["1", "2", "3", "4", "5"]);
+  await dt.update(["1", "2", "3", "x"]);
+  t.deepEqual(screen.getScrollback(), ["1", "2"]);
+  t.deepEqual(screen.getLines(), ["3", "x"]);
+  dt.destroy();
+});
+
+test("skips the committed lines of each full update with the scroll overflow", async t => {
+  const { dt, screen } = await session(20, 2, { overflow: "scroll" });
+  await dt.update(["1"]);
+  await dt.update(["1", "2"]);
+  await dt.update(["1", "2", "3"]);
+  await dt.update(["1", "2", "3", "4"]);
+  t.deepEqual(screen.getScrollback(), ["1", "2"]);
+  t.deepEqual(screen.getLines(), ["3", "4"]);
+  await dt.update(["1", "2", "three", "4", "5"]);
+  t.deepEqual(screen.getScrollback(), ["1", "2", "three"]);
+  t.deepEqual(screen.getLines(), ["4", "5"]);
+  dt.destroy();
+});
+
+test("reflows the previous frame like the terminal does", async t => {
+  const cases: Array<[string[], number[]]> = [
+    [["aa ", "  hello a "], [14, 9, 11]],
+    [["b  b b ", " a  "], [14, 6]],
+    [["a中", "bb  hellobb中  "], [14, 4, 8, 4]],
+    [["ahellobbb    中", "中  ab  "], [14, 8, 11]]
+  ];
+  for (const [lines, widths] of cases) {
+    const fresh = await renderResized(lines, widths.slice(-1));
+    t.deepEqual(await renderResized(lines, widths), fresh, `${widths.join(" → ")}`);
+  }
+});
+
+test("coalesces the updates between two frames", async t => {
+  const { dt, screen } = await session(20, 5, { maxFps: 4 });
+  await dt.update(["a"]);
+  screen.take();
+
+  await Promise.all([dt.update(["b"]), dt.update(["c"]), dt.update(["d"])]);
+  t.deepEqual(screen.getLines(), ["d"]);
+  const written = screen.take();
+  t.false(written.includes("b") || written.includes("c"), "skips the states in between");
+
+  const start = Date.now();
+  const update = dt.update(["e"]);
+  await dt.flush();
+  t.true(Date.now() - start < 200, "flush() doesn't wait for the next frame");
+  t.deepEqual(screen.getLines(), ["e"]);
+  await update;
+  dt.destroy();
+});
+
+test("links the rows of a line with a link", async t => {
+  const { dt, screen } = await session(12, 5);
+  const [handle] = await dt.append({ link: "https://a.com/\x07x", text: "click here please" });
+  t.deepEqual(screen.getLines(), ["click here", "please"]);
+  t.is(screen.getCell(0, 0).style.link, ";https://a.com/x", "control characters are removed");
+  t.is(screen.getCell(1, 5).style.link, ";https://a.com/x", "the link carries over wrapped rows");
+
+  await handle.setLink("");
+  t.is(screen.getCell(0, 0).style.link, undefined);
+  await handle.setLink("https://b.com");
+  t.is(screen.getCell(1, 0).style.link, ";https://b.com");
+  dt.destroy();
+});
+
+test("keeps the links of the text when it changes", async t => {
+  const { dt, screen } = await session(20, 5);
+  const link = (text: string) => `\x1B]8;;https://a.com\x1B\\${text}\x1B]8;;\x1B\\`;
+  await dt.update(`see ${link("docs")} now`);
+  await dt.update(`see ${link("dogs")} now`);
+  t.deepEqual(screen.getLines(), ["see dogs now"]);
+  t.deepEqual([3, 4, 7, 8].map(column => screen.getCell(0, column).style.link), [
+    undefined,
+    ";https://a.com",
+    ";https://a.com",
+    undefined
+  ]);
+  dt.destroy();
+});
+
+test("prints each line once when its text changes in the append-only mode", async t => {
+  const { dt, screen } = await session(40, 10, { mode: "append-only" });
+  await dt.update([DynamicTerminal.SPINNER + " Install", "Deploy"]);
+  await dt.update([
+    { text: DynamicTerminal.SPINNER + " Install" },
+    { progress: { current: 5, total: 10 }, text: "Deploy" }
+  ]);
+  await dt.log("logged");
+  await dt.update([{ text: "Installed" }, { progress: { current: 5, total: 10 }, text: "Deploy" }]);
+  t.is(screen.take(), "Install\nDeploy\nDeploy 50%\nlogged\nInstalled\n");
+  await dt.stop();
+  t.is(screen.take(), "", "nothing is erased or printed again");
+  dt.destroy();
+});
+
+test("prints nothing but the logs in the silent mode", async t => {
+  const { dt, screen } = await session(40, 10, { mode: "silent" });
+  await dt.update(["Install", "Deploy"]);
+  await dt.log("logged");
+  await dt.update("Done");
+  await dt.stop();
+  t.is(screen.take(), "logged\n");
+  dt.destroy();
+});
+
+test("appends to an output that isn't a TTY", async t => {
+  const output = new PassThrough();
+  let written = "";
+  output.on("data", data => (written += data));
+  const dt = new DynamicTerminal({ mode: "inline" });
+  await dt.start({ output });
+  await dt.update("Install");
+  await dt.update("Installed");
+  await dt.stop();
+  t.is(written, "Install\nInstalled\n");
+  dt.destroy();
+});
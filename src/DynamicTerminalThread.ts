@@ -1,24 +1,66 @@
 import ansi from "ansi-escapes";
 import chalk from "chalk";
 import _debug from "debug";
-import elegantSpinner from "elegant-spinner";
-import exitHook from "exit-hook";
 import figures from "figures";
 import indentString from "indent-string";
-import os from "os";
+import { PassThrough } from "stream";
 import stripAnsi from "strip-ansi";
-import _windowSize from "window-size";
-import wrapAnsi from "wrap-ansi";
 
+import { AsciicastRecorder } from "./Asciicast";
 import { ChangeAlgorithm } from "./ChangeAlgorithm";
+import { addExitHandler } from "./ExitHandler";
+import { JsonEvent, toJsonLine } from "./JsonEvents";
+import { InputStream } from "./Keyboard";
+import {
+  getColumnWidths,
+  ILineColumn,
+  layoutColumns,
+  layoutText,
+  LineAlign,
+  LineWrap,
+  wrapCells
+} from "./Layout";
+import { writeThrough } from "./OutputInterceptor";
+import { formatProgress, formatStaticProgress, IProgress, IProgressState } from "./Progress";
+import {
+  checkLines,
+  checkPatch,
+  Command,
+  IErrorReply,
+  PROTOCOL_VERSION,
+  WorkerMessage
+} from "./Protocol";
+import {
+  getSpinnerColour,
+  getSpinnerFrame,
+  getTimerInterval,
+  ILineSpinner,
+  ISpinnerStyle,
+  resolveSpinner,
+  SPINNERS
+} from "./Spinners";
+import {
+  carryStyles,
+  escapeCodeRegex,
+  hyperlinkCode,
+  normalizeHyperlinks,
+  trimTrailingBlanks
+} from "./Style";
+import { TerminalErrorCode } from "./TerminalError";
+import { textWidth } from "./Width";
 
 const defaultDebug = _debug("DTTCommand");
 const renderDebug = _debug("DTTRender");
 
-// Can return undefined if it can't be detected
-const windowSize = _windowSize
-  ? _windowSize
-  : { width: 80, height: 30, get: () => ({ width: 80, height: 30 }) };
+// DEC private mode 2026, the terminal holds back the screen until the frame is complete
+const SYNC_START = "\x1B[?2026h";
+const SYNC_END = "\x1B[?2026l";
+// DEC private mode 1049, a screen buffer without scrollback that is discarded when leaving it
+const ALTERNATE_SCREEN_ENTER = "\x1B[?1049h";
+const ALTERNATE_SCREEN_EXIT = "\x1B[?1049l";
+
+// Used when the output stream does not report its size (files, pipes, buffers)
+const DEFAULT_SIZE = { width: 80, height: 30 };
 
 /**
  * A single line of terminal output.
@@ -30,6 +72,50 @@ export interface ILine {
   indent?: number;
   /** Force re-rendering of the entire line */
   force?: boolean;
+  /** The style and colour of the SPINNER placeholder in this line, or a spinner name */
+  spinner?: string | ILineSpinner;
+  /** An identifier, used to address the line with commands such as PATCH and PROGRESS */
+  id?: string;
+  /**
+   * A progress bar, rendered in place of the PROGRESS placeholder, or at the
+   * end of the line if the placeholder is missing
+   */
+  progress?: IProgress;
+  /** A URL that the line links to, in terminals that support OSC 8 hyperlinks */
+  link?: string;
+  /** The status of the line, reported by the "json" output mode */
+  status?: string;
+  /** How the line is aligned within the terminal width, "left" by default */
+  align?: LineAlign;
+  /** How the line is split if it's wider than the terminal, "word" by default */
+  wrap?: LineWrap;
+  /**
+   * Makes the line a row of columns, which are laid out again whenever the
+   * terminal width changes. The row is never wrapped, columns that don't fit are
+   * truncated. Its text is the columns separated by spaces, for output modes that
+   * can't lay it out.
+   */
+  columns?: ILineColumn[];
+}
+
+/**
+ * A slot of a session that is shared by several DynamicTerminal instances, see
+ * Compositor. Regions are rendered by ascending order, then in the order they
+ * were opened.
+ */
+export interface IRegion {
+  id: string;
+  order: number;
+}
+
+/** Changes to the lines with a given id, sent with the PATCH command */
+export interface ILinePatch {
+  text?: string;
+  indent?: number;
+  /** A new link, or an empty string to remove the link */
+  link?: string;
+  /** Removes the lines from the render queue */
+  remove?: boolean;
 }
 
 export interface IChange {
@@ -38,6 +124,47 @@ export interface IChange {
   text: string;
 }
 
+/** A writable stream, with the optional properties that a TTY stream exposes */
+export type OutputStream = NodeJS.WritableStream & {
+  isTTY?: boolean;
+  columns?: number;
+  rows?: number;
+};
+
+/**
+ * Describes an output stream that lives in the parent process. The worker
+ * can't write to it directly, so rendered output is forwarded over IPC.
+ */
+export interface IForwardedOutput extends ITerminalSize {
+  isTTY: boolean;
+  /** Whether the stream is the parent's stdout or stderr, rather than a stream of its own */
+  standard?: boolean;
+}
+
+/** The size of a terminal, as given by the columns and rows of a TTY stream */
+export interface ITerminalSize {
+  columns?: number;
+  rows?: number;
+}
+
+/**
+ * What to do when the rendered lines don't fit in the terminal's height:
+ * - `"tail"` shows the last rows that fit
+ * - `"head"` shows the first rows that fit, with a "+K more" footer
+ * - `"scroll"` lets the first rows scroll into the scrollback, committing them
+ */
+export type OverflowMode = "tail" | "head" | "scroll";
+
+/**
+ * How the session is presented:
+ * - `"interactive"` redraws the lines in place by moving the cursor
+ * - `"append-only"` prints each line once whenever its text changes, without moving
+ *   the cursor, which keeps CI logs and redirected output readable
+ * - `"silent"` prints nothing but log() messages
+ * - `"json"` writes each change as a JSON event on its own line, for other programs to read
+ */
+export type OutputMode = "interactive" | "append-only" | "silent" | "json";
+
 export interface IOptions {
   disableInput?: boolean;
   hideCursor?: boolean;
@@ -53,77 +180,244 @@ export interface IOptions {
 
   /** Clear and repaint everything if resize is detected */
   repaintOnResize?: boolean;
+
+  /**
+   * The stream that the session is rendered to, "stdout" by default. Terminal
+   * size and TTY detection are taken from this stream.
+   */
+  output?: OutputStream | "stdout" | "stderr";
+
+  /** How lines that exceed the terminal height are handled, "tail" by default */
+  overflow?: OverflowMode;
+
+  /**
+   * Intercept anything written to stdout and stderr by the controlling process,
+   * such as console.log(), and print it above the session with log()
+   */
+  interceptOutput?: boolean;
+
+  /**
+   * The maximum number of frames rendered per second, 60 by default. Updates
+   * that arrive between two frames are coalesced into one. Zero removes the
+   * limit, but updates received together are still coalesced.
+   */
+  maxFps?: number;
+
+  /**
+   * Wrap each frame in synchronized update markers (DEC mode 2026), so that it
+   * appears at once. Terminals without support ignore them. Enabled by default
+   * if the output is a TTY.
+   */
+  synchronizedOutput?: boolean;
+
+  /**
+   * How the session is presented. By default, the session is interactive if the
+   * output is a TTY, and append-only in CI or if the output is redirected.
+   */
+  mode?: OutputMode;
+
+  /**
+   * The stream that keypresses are read from, stdin by default. It's read by the
+   * controlling process, see DynamicTerminal.onKeypress().
+   */
+  input?: InputStream;
+
+  /** Prefix each line printed in append-only mode, and each log, with the time */
+  timestamps?: boolean;
+
+  /**
+   * Whether the lines are kept when the process exits during a session, or when
+   * the worker notices that its parent process has died. True by default,
+   * false erases them.
+   */
+  commitOnExit?: boolean;
+
+  /**
+   * Take over the terminal like `top`, instead of rendering from the cursor. The
+   * session is rendered on the alternate screen, and clipped to the terminal
+   * height. The main screen is restored when the session stops, with the
+   * committed lines and any log() messages printed on it. Only used in the
+   * interactive mode.
+   */
+  fullscreen?: boolean;
+
+  /**
+   * The path of a file to record everything written to the output to, with
+   * timings and terminal sizes, in the asciicast v2 format. See replay().
+   */
+  record?: string;
 }
 
-const DEFAULT_OPTIONS = {
+const DEFAULT_OPTIONS: IOptions = {
+  commitOnExit: true,
   disableInput: false,
   hideCursor: true,
+  maxFps: 60,
+  overflow: "tail",
   repaintOnResize: false,
   updateFrequency: 100
 };
 
 export const SPINNER = "_*_";
+export const PROGRESS = "_#_";
 export const TICK = figures.tick;
 export const CROSS = figures.cross;
 
+/**
+ * Output that isn't a TTY, or that is read by a CI service, can't be redrawn.
+ * The environment only describes the process' own stdout and stderr, a stream
+ * that was given explicitly, such as a VirtualTerminal, is trusted as it is.
+ *
+ * @param standard Whether the output is the process' stdout or stderr
+ */
+function detectMode(output: OutputStream, standard: boolean): OutputMode {
+  if (!standard) {
+    return output.isTTY ? "interactive" : "append-only";
+  }
+  const ci = !!process.env.CI && process.env.CI !== "false";
+  return output.isTTY && !ci && process.env.TERM !== "dumb" ? "interactive" : "append-only";
+}
+
+/** A row of the previous frame, as the terminal holds it */
+interface IRow {
+  text: string;
+  /**
+   * The terminal split a longer row when it was resized, and this row continues
+   * on the next one. The terminal joins them again when it's resized, until the
+   * row is erased.
+   */
+  wrapped?: boolean;
+}
+
+/** A line of the render queue */
+interface IQueuedLine extends ILine {
+  /** The id of the compositor region that the line belongs to */
+  region?: string;
+}
+
+/** Sends a message back to the DynamicTerminal controller */
+export type MessageSender = (message: WorkerMessage) => void;
+
 /**
  * The thread that handles terminal updates. This should not be directly used,
  * instead use the DynamicTerminal class.
  */
-class DynamicTerminalThread {
+export class DynamicTerminalThread {
   private active: boolean = false;
   private wasRaw: boolean = null; // Used to restore input after being disabled
   private cursorHidden: boolean = false;
 
-  private previousSpinner: string = ""; // Previous spinner status for re-rendering
-  private spinner: () => string = elegantSpinner();
-  private nextSpinner: string;
-  private updateFrequency: number = 100;
+  private spinnerStyle: ISpinnerStyle = SPINNERS.elegant; // The default spinner
+  private spinnerTime: number = 0; // Milliseconds of spinner animation, used to select frames
   private spinnerColor: (text: string) => string = chalk.cyan;
 
+  private output: OutputStream = process.stdout;
   private repaintOnResize: boolean = false; // Repaint everything on resize
-  private previousSize = windowSize.get();
-  private previousRender: ILine[] = [];
-  private nextRender: ILine[] = [];
+  private overflow: OverflowMode = "tail";
+  private committedLines: number = 0; // Lines of the queue committed to the scrollback in "scroll" mode
+  private scrolledLines: number = 0; // Rows of the next line committed to the scrollback
+  private previousSize = DEFAULT_SIZE;
+  private previousRender: IRow[] = [];
+  private nextRender: IQueuedLine[] = [];
   private renderInterval: NodeJS.Timeout | false = false; // The interval reference
+  private timerInterval: number = 0; // Milliseconds between each tick of renderInterval
+  private maxFps: number = 60;
+  private frameTimer: NodeJS.Timeout = null; // A scheduled frame
+  private lastFrame: number = 0; // The time of the last frame
+  private frameCallbacks: Array<(error: Error) => void> = []; // Called once the next frame is rendered
+  private frameBuffer: string = ""; // Everything written during the current frame
+  private frameDepth: number = 0; // Frames can be nested, only the outermost one is written
+  private synchronizedOutput: boolean = false;
+  private progressStates = new Map<string, IProgressState>(); // Used for progress rate and ETA
+  private mode: OutputMode = "interactive";
+  private timestamps: boolean = false;
+  private printedLines = new Map<string, string>(); // The last text printed in append-only mode
+  private recorder: AsciicastRecorder = null;
 
   private cursorLine: number; // The current line position of the cursor
   private cursorIndex: number; // The current index position of the cursor
+  private renderWidth = DEFAULT_SIZE.width; // The terminal width of the frame being rendered
+  private size: ITerminalSize = null; // Given by the controller, if the terminal is in its process
+  private regions: IRegion[] = []; // The open regions, in the order they are rendered
+  private fullscreen: boolean = false; // Rendering on the alternate screen
+  private heldLogs: string[] = []; // Printed on the main screen once the alternate screen is left
+  private commitOnExit: boolean = true;
 
-  constructor() {
-    this.nextSpinner = this.spinner();
+  private sendMessage: MessageSender;
+  private removeExitHandler: () => void;
 
-    // Set a higher priority to keep up with updates
-    try {
-      os.setPriority(os.constants.priority.PRIORITY_HIGH);
-    } catch (err) {
-      /* */
-    }
+  /**
+   * @param sendMessage Used to send messages to the controller, such as forwarded output
+   */
+  constructor(sendMessage: MessageSender = message => process.send(message)) {
+    this.sendMessage = sendMessage;
 
-    exitHook(() => {
-      this.stop();
+    this.removeExitHandler = addExitHandler(() => {
+      this.stop(this.commitOnExit);
       defaultDebug("EXITHOOK", "Cleanup complete");
     });
     this.debug(chalk.cyan("NEW"), "Worker has started");
   }
 
+  /**
+   * Stops any running session and removes the exit handler. Used when the
+   * thread shares its process with other code and can't just exit.
+   */
+  public destroy() {
+    this.stop(this.commitOnExit);
+    this.removeExitHandler();
+    this.debug(chalk.red("DESTROY"), "Worker has been destroyed");
+  }
+
   /**
    * Starts a new write session to the terminal. Anything may be replaced during the session.
+   *
+   * @param forwarded Set when the output stream belongs to the parent process
+   * @param size The size of the terminal, if it's known better by the parent process
+   * @param region Opens a region of the session, which is only started by the first region
    */
-  public start(options: IOptions = {}) {
+  public start(
+    options: IOptions = {},
+    forwarded?: IForwardedOutput,
+    size?: ITerminalSize,
+    region?: IRegion
+  ) {
     if (!this.active) {
-      this.active = true;
-      this.debug(chalk.green("START"), "New terminal session");
       options = {
         ...DEFAULT_OPTIONS,
         ...options
       };
+      this.output = this.resolveOutput(options.output, forwarded);
+      this.size = size || null;
+      this.previousSize = this.getSize();
+
+      // Setup that may throw comes first, a session that fails to start leaves nothing behind
+      if (options.record) {
+        this.recorder = new AsciicastRecorder(
+          options.record,
+          this.previousSize.width,
+          this.previousSize.height
+        );
+      }
+
+      this.active = true;
+      this.debug(chalk.green("START"), "New terminal session");
+      this.output.on("resize", this.onResize);
+      const standard = forwarded
+        ? !!forwarded.standard
+        : this.output === process.stdout || this.output === process.stderr;
+      this.mode = options.mode || detectMode(this.output, standard);
+      this.timestamps = !!options.timestamps;
+      this.commitOnExit = options.commitOnExit !== false;
+      const interactive = this.mode === "interactive";
+
       this.wasRaw = process.stdin.isRaw;
-      if (options.disableInput && process.stdout.isTTY) {
+      if (options.disableInput && process.stdin.isTTY) {
         process.stdin.setRawMode(true);
       }
 
-      if (options.hideCursor) {
+      this.beginFrame();
+      if (options.hideCursor && this.output.isTTY && interactive) {
         this.cursorHidden = true;
         this.write(ansi.cursorHide);
       }
@@ -133,44 +427,104 @@ class DynamicTerminalThread {
       }
 
       if (options.updateFrequency) {
-        this.updateFrequency = options.updateFrequency;
+        this.spinnerStyle = { ...SPINNERS.elegant, interval: options.updateFrequency };
       }
+      this.spinnerTime = 0;
 
       if (options.repaintOnResize) {
         this.repaintOnResize = options.repaintOnResize;
       }
 
+      // The alternate screen has no scrollback to scroll rows into
+      this.fullscreen = interactive && !!options.fullscreen;
+      this.overflow = this.fullscreen && options.overflow === "scroll" ? "tail" : options.overflow;
+      this.heldLogs = [];
+      this.committedLines = 0;
+      this.scrolledLines = 0;
+      this.maxFps = options.maxFps;
+      this.synchronizedOutput =
+        interactive &&
+        (typeof options.synchronizedOutput === "boolean"
+          ? options.synchronizedOutput
+          : !!this.output.isTTY);
+
       this.previousRender = [];
       this.nextRender = [];
+      this.regions = [];
+      this.progressStates.clear();
+      this.printedLines.clear();
 
       // Reset the cursor position
-      this.write("\r" + ansi.eraseEndLine);
+      if (this.fullscreen) {
+        this.write(ALTERNATE_SCREEN_ENTER + ansi.eraseScreen + ansi.cursorTo(0, 0));
+      } else if (interactive) {
+        this.write("\r" + ansi.eraseEndLine);
+      }
+      this.emitEvent({ event: "start", time: Date.now() });
       this.cursorLine = 0;
       this.cursorIndex = 0;
+      this.endFrame();
 
       this.startTimer();
     }
+    if (region) {
+      this.openRegion(region);
+    }
   }
 
   /**
-   * Terminates the running session
+   * Terminates the running session. If a region is given, only that region is
+   * closed, and the session is terminated once the last region is closed.
+   *
    * @param commit Whether already printed text should persist
+   * @returns Whether the session was terminated
    */
-  public stop(commit: boolean = true) {
+  public stop(commit: boolean = true, region?: IRegion): boolean {
+    if (region) {
+      if (this.regions.some(open => open.id !== region.id)) {
+        this.closeRegion(region.id, commit);
+        return false;
+      }
+      this.regions = [];
+    }
     if (this.active) {
-      this.active = false;
       this.debug(chalk.red("STOP"), "Ending terminal session");
+      this.beginFrame();
+      this.emitEvent({
+        commit,
+        event: "stop",
+        lines: commit ? this.nextRender.map(toJsonLine) : [],
+        time: Date.now()
+      });
       this.stopTimer();
       if (commit) {
-        this.render(); // Give it a last render
-        this.moveCursorTo(this.previousRender.length, 0);
+        this.flush(); // Give it a last render, including changes waiting for a frame
+        if (this.mode === "interactive" && !this.fullscreen) {
+          this.moveCursorTo(this.previousRender.length, 0);
+        }
       } else {
         this.nextRender = [];
-        this.moveCursorTo(0, 0);
-        process.stdout.write(ansi.eraseDown);
+        if (this.mode === "interactive" && !this.fullscreen) {
+          this.moveCursorTo(0, 0);
+          this.write(ansi.eraseDown);
+        }
+      }
+      if (this.fullscreen) {
+        // The alternate screen is discarded, what should persist is printed on the main screen
+        const rows = commit ? this.previousRender.map(line => line.text) : [];
+        this.write(
+          ALTERNATE_SCREEN_EXIT +
+            this.heldLogs
+              .concat(rows)
+              .map(row => row + "\n")
+              .join("")
+        );
+        this.fullscreen = false;
+        this.heldLogs = [];
       }
+      this.active = false;
 
-      if (this.wasRaw !== null && process.stdout.isTTY) {
+      if (this.wasRaw !== null && process.stdin.isTTY) {
         process.stdin.setRawMode(this.wasRaw);
       }
       this.wasRaw = null;
@@ -179,18 +533,43 @@ class DynamicTerminalThread {
         this.write(ansi.cursorShow);
       }
       this.cursorHidden = false;
+      this.endFrame();
 
       this.previousRender = [];
       this.nextRender = [];
+      this.flush(); // Nothing more will be rendered, release anyone waiting for a frame
+
+      if (this.recorder) {
+        this.recorder.close();
+        this.recorder = null;
+      }
+      this.output.removeListener("resize", this.onResize);
       this.debug(chalk.red("STOP"), "Cleanup complete");
     }
+    return true;
+  }
+
+  /**
+   * Returns the codes that undo what the session changed in the terminal, for
+   * the controller to write if the session can't be stopped properly
+   */
+  public getRestoreSequence(): string {
+    return (
+      (this.active && this.fullscreen ? ALTERNATE_SCREEN_EXIT : "") +
+      (this.cursorHidden ? ansi.cursorShow : "")
+    );
   }
 
   /**
    * Returns the next render queue as an array of Line objects
+   *
+   * @param region Only returns the lines of a region
    */
-  public getLines(): ILine[] {
-    return this.nextRender;
+  public getLines(region?: IRegion): ILine[] {
+    const lines = region
+      ? this.nextRender.filter(line => line.region === region.id)
+      : this.nextRender;
+    return lines.map(({ region: _, ...line }) => line);
   }
 
   /**
@@ -206,15 +585,18 @@ class DynamicTerminalThread {
    * @param {string | ILine | string[] | ILine[]} text May be a string with new lines,
    * an array of strings, or an array of objects. Objects are easy to pass
    * to sub-tasks for update by reference, and allow easy indenting.
+   * @param region Only replaces the lines of a region
    */
-  public update(text: string | ILine | string[] | ILine[]) {
-    this.nextRender = this.processTextToLineObjects(text);
+  public update(text: string | ILine | string[] | ILine[], region?: IRegion) {
+    const lines = this.processTextToLineObjects(text);
+    this.nextRender = region ? this.placeInRegion(region, lines, false) : lines;
+    this.emitEvent({ event: "update", lines: this.nextRender.map(toJsonLine), time: Date.now() });
     this.debug(
       chalk.keyword("orange")("UPDATE"),
       "Replaced with " + this.nextRender.length + " lines"
     );
     this.startTimer();
-    this.render();
+    this.scheduleRender();
   }
 
   /**
@@ -223,14 +605,161 @@ class DynamicTerminalThread {
    * @param {string | ILine | string[] | ILine[]} text May be a string with new lines,
    * an array of strings, or an array of objects. Objects are easy to pass
    * to sub-tasks for update by reference, and allow easy indenting.
+   * @param region Adds the lines to the end of a region, instead of the session
    */
-  public append(text: string | ILine | string[] | ILine[]) {
-    this.nextRender = this.nextRender.concat(this.processTextToLineObjects(text));
+  public append(text: string | ILine | string[] | ILine[], region?: IRegion) {
+    const lines = this.processTextToLineObjects(text);
+    this.nextRender = region
+      ? this.placeInRegion(region, lines, true)
+      : this.nextRender.concat(lines);
+    this.emitEvent({ event: "append", lines: lines.map(toJsonLine), time: Date.now() });
     this.debug(chalk.keyword("orange")("APPEND"), "Added to render queue");
     this.startTimer();
+    this.scheduleRender();
+  }
+
+  /**
+   * Changes the lines with the given id, without replacing the render queue.
+   * A line that was split on new lines is still a single group of lines.
+   */
+  public patch(id: string, changes: ILinePatch) {
+    const first = this.nextRender.findIndex(line => line.id === id);
+    if (first === -1) {
+      throw new Error(`No line has the id "${id}"`);
+    }
+
+    const group = this.nextRender.filter(line => line.id === id);
+    let lines: ILine[] = [];
+    if (!changes.remove) {
+      const text =
+        typeof changes.text === "string" ? changes.text : group.map(l => l.text).join("\n");
+      const template: ILine = {
+        ...group[0],
+        indent: typeof changes.indent === "number" ? changes.indent : group[0].indent,
+        link: typeof changes.link === "string" ? changes.link || undefined : group[0].link,
+        progress: group.map(l => l.progress).find(progress => !!progress)
+      };
+      lines = this.splitStringToLineObjects(text, template);
+    }
+
+    const rest = this.nextRender.filter(line => line.id !== id);
+    this.nextRender = rest.slice(0, first).concat(lines, rest.slice(first));
+    this.emitEvent({ event: "patch", id, lines: lines.map(toJsonLine), time: Date.now() });
+    this.debug(chalk.keyword("orange")("PATCH"), `Changed ${group.length} lines of "${id}"`);
+    this.startTimer();
+    this.scheduleRender();
+  }
+
+  /**
+   * Updates the progress of the lines with the given id, without replacing the
+   * render queue. Only the new values need to be sent.
+   *
+   * @param total A new total, the previous total is kept if omitted
+   */
+  public setProgress(id: string, current: number, total?: number) {
+    let found = false;
+    for (const line of this.nextRender) {
+      if (line.id === id && line.progress) {
+        line.progress = {
+          ...line.progress,
+          current,
+          total: typeof total === "number" ? total : line.progress.total
+        };
+        found = true;
+      }
+    }
+    if (!found) {
+      throw new Error(`No line with a progress has the id "${id}"`);
+    }
+    const progress = this.nextRender.find(line => line.id === id && !!line.progress).progress;
+    this.emitEvent({
+      current: progress.current,
+      event: "progress",
+      id,
+      time: Date.now(),
+      total: progress.total
+    });
+    this.scheduleRender();
+  }
+
+  /**
+   * Prints permanent text above the session. The session is erased, the text
+   * is written in its place and the session is redrawn underneath it.
+   *
+   * @param text The text to print, a new line is added automatically
+   */
+  public log(text: string) {
+    if (this.timestamps) {
+      text = this.timestamp() + text;
+    }
+    if (this.active && this.mode === "json") {
+      this.emitEvent({ event: "log", text: text.replace(escapeCodeRegex(), ""), time: Date.now() });
+      return;
+    }
+    if (!this.active || this.mode !== "interactive") {
+      this.write(text + "\n");
+      return;
+    }
+    if (this.fullscreen) {
+      this.heldLogs.push(text);
+      return;
+    }
+    this.beginFrame();
+    this.moveCursorTo(0, 0);
+    this.write(ansi.eraseDown + text + "\n");
+    this.debug(chalk.keyword("orange")("LOG"), "Printed above the session");
+
+    // The session now starts below the printed text, and must be drawn from scratch
+    this.previousRender = [];
+    this.cursorLine = 0;
+    this.cursorIndex = 0;
+    this.render();
+    this.endFrame();
+  }
+
+  /**
+   * Changes the size of the terminal, for when the output stream belongs to
+   * another process. The session is repainted at once.
+   */
+  public resize(columns: number, rows: number) {
+    this.size = { columns, rows };
+    this.onResize();
+  }
+
+  /**
+   * Renders a frame as soon as the frame rate allows. Changes that arrive before
+   * then are coalesced into the same frame.
+   */
+  public scheduleRender() {
+    if (this.frameTimer) {
+      return;
+    }
+    const frameInterval = this.maxFps > 0 ? 1000 / this.maxFps : 0;
+    const delay = Math.max(0, this.lastFrame + frameInterval - Date.now());
+    this.frameTimer = setTimeout(() => {
+      this.frameTimer = null;
+      this.render();
+    }, delay);
+  }
+
+  /** Renders any pending changes immediately, without waiting for the next frame */
+  public flush() {
     this.render();
   }
 
+  /**
+   * Calls back once the current state of the render queue is on screen, or
+   * with the error if the frame could not be rendered
+   */
+  public whenRendered(callback: (error: Error) => void) {
+    this.frameCallbacks.push(callback);
+    if (!this.active) {
+      this.render(); // Nothing will be rendered, release the callback
+    } else {
+      this.scheduleRender();
+    }
+  }
+
   /**
    * Updates the screen to match nextRender.
    * Re-renders both the previous and current screen
@@ -241,46 +770,175 @@ class DynamicTerminalThread {
    * Should not need to be called directly.
    */
   public render(): void {
-    if (!this.active) {
-      return;
+    // This frame includes any changes that were waiting for a scheduled frame
+    if (this.frameTimer) {
+      clearTimeout(this.frameTimer);
+      this.frameTimer = null;
+    }
+    const callbacks = this.frameCallbacks;
+    this.frameCallbacks = [];
+
+    // A frame that fails is reported to whoever waits for it, the next frame may still succeed
+    let error: Error = null;
+    if (this.active) {
+      const frameDepth = this.frameDepth;
+      this.beginFrame();
+      try {
+        if (this.mode === "interactive") {
+          this.renderFrame();
+        } else if (this.mode === "append-only") {
+          this.renderAppendOnly();
+        }
+      } catch (err) {
+        error = err;
+        this.frameDepth = frameDepth + 1; // Frames that were begun by the failed render are closed
+        this.debug(chalk.red("ERROR"), `Frame could not be rendered: ${err && err.message}`);
+      }
+      this.endFrame();
+      this.lastFrame = Date.now();
     }
+    callbacks.forEach(callback => callback(error));
+  }
 
+  /** Gives a region its slot in the session, if it doesn't already have one */
+  private openRegion(region: IRegion) {
+    if (!this.regions.some(open => open.id === region.id)) {
+      const index = this.regions.findIndex(open => open.order > region.order);
+      this.regions.splice(index === -1 ? this.regions.length : index, 0, region);
+      this.debug(chalk.cyan("REGION"), `Opened "${region.id}" with order ${region.order}`);
+    }
+  }
+
+  /**
+   * Removes a region and its lines from the session. Committed lines are
+   * printed above the session, as the rest of the session is still dynamic.
+   */
+  private closeRegion(id: string, commit: boolean) {
+    const lines = this.nextRender.filter(line => line.region === id);
+    this.regions = this.regions.filter(open => open.id !== id);
+    this.nextRender = this.nextRender.filter(line => line.region !== id);
+    this.debug(chalk.cyan("REGION"), `Closed "${id}"`);
+
+    // Other modes have already printed the lines as they changed
+    if (commit && lines.length > 0 && this.active && this.mode === "interactive") {
+      this.log(lines.map(line => " ".repeat(line.indent || 0) + this.staticText(line)).join("\n"));
+    }
+    this.emitEvent({ event: "update", lines: this.nextRender.map(toJsonLine), time: Date.now() });
+    this.scheduleRender();
+  }
+
+  /**
+   * Returns the render queue with lines placed in a region's slot, replacing
+   * the region's lines or added after them
+   */
+  private placeInRegion(region: IRegion, lines: ILine[], append: boolean): IQueuedLine[] {
+    this.openRegion(region);
+    const slot = (line: IQueuedLine) => this.regions.findIndex(open => open.id === line.region);
+    const own = this.regions.findIndex(open => open.id === region.id);
+    return this.nextRender
+      .filter(line => slot(line) < own)
+      .concat(
+        append ? this.nextRender.filter(line => line.region === region.id) : [],
+        lines.map(line => ({ ...line, region: region.id })),
+        this.nextRender.filter(line => slot(line) > own)
+      );
+  }
+
+  /**
+   * Prints the lines whose text changed since they were last printed, without
+   * moving the cursor. Spinners are removed, and progress is shown in steps.
+   */
+  private renderAppendOnly(): void {
+    const occurrences = new Map<string, number>();
+    this.nextRender.forEach(line => {
+      // Lines with an id keep their identity when lines before them are removed,
+      // other lines are counted within their region
+      const name = line.id !== undefined ? `id:${line.id}` : `index:${line.region || ""}`;
+      const occurrence = occurrences.get(name) || 0;
+      occurrences.set(name, occurrence + 1);
+      const key = `${name}:${occurrence}`;
+
+      const text = this.staticText(line);
+      if (text === "" || this.printedLines.get(key) === text) {
+        return;
+      }
+      this.printedLines.set(key, text);
+      const prefix = this.timestamps ? this.timestamp() : "";
+      this.write(prefix + " ".repeat(line.indent || 0) + text + "\n");
+    });
+  }
+
+  /** Returns the text of a line for output that can't be redrawn, without its spinner */
+  private staticText(line: ILine): string {
+    const text = line.text.replace(SPINNER, "").trim();
+    if (!line.progress) {
+      return text;
+    }
+    const progress = formatStaticProgress(line.progress);
+    return text.indexOf(PROGRESS) !== -1
+      ? text.replace(PROGRESS, progress)
+      : (text + " " + progress).trim();
+  }
+
+  /** Writes an event in the "json" output mode */
+  private emitEvent(event: JsonEvent) {
+    if (this.mode === "json") {
+      this.write(JSON.stringify(event) + "\n");
+    }
+  }
+
+  /** Returns the current time, to prefix printed lines with */
+  private timestamp(): string {
+    return `[${new Date().toTimeString().slice(0, 8)}] `;
+  }
+
+  /** Renders the frame, see render() */
+  private renderFrame(): void {
     // 1. Renders the previous and next screen status, based on the current terminal width
     // 2. Calculates the changes necessary to pass from one to the other
     // 3. Writes the changes to terminal by moving cursor to selected positions
     // 4. Cleans up, moving cursor to known position, save state and useful info for next render
 
-    const size: { width: number; height: number } = windowSize.get();
-    let previousLines: string[] = [];
+    const size = this.getSize();
+    this.renderWidth = size.width;
+    if (this.recorder) {
+      this.recorder.resize(size.width, size.height);
+    }
     let nextLines: Array<{ text: string; force?: boolean }> = [];
+    const rowCounts: number[] = []; // The number of rows of each line that is laid out
 
     // Render both screen status. This will return arrays of strings and lines
     // Lines will be split based on the terminal size and indented correctly.
     // Each line in previousLines and nextLines is a trimmed line WITHOUT wrapping
-    this.previousRender.forEach(line => {
-      previousLines = previousLines.concat(
-        indentString(
-          wrapAnsi(
-            line.text.replace(SPINNER, this.spinnerColor(this.previousSpinner)),
-            size.width,
-            {
-              hard: true,
-              trim: false
-            }
-          ),
-          line.indent || 0
-        ).split("\n")
-      );
-    });
-    this.nextRender.forEach(line => {
+    const reflowed = this.previousSize.width !== size.width;
+    const previousRows = reflowed
+      ? this.reflowRows(this.previousRender, size.width)
+      : this.previousRender;
+    let previousLines = previousRows.map(row => row.text);
+    let previousWrapped = previousRows.map(row => !!row.wrapped);
+    // The cursor keeps its place past the trailing blanks that the reflow trimmed
+    let cursorPadding = 0;
+    if (reflowed && this.previousRender.length > 0) {
+      const lastRow = this.previousRender[this.previousRender.length - 1].text;
+      cursorPadding = Math.max(0, this.cursorIndex - textWidth(trimTrailingBlanks(lastRow)));
+    }
+    this.nextRender.forEach((line, index) => {
+      if (index < this.committedLines) {
+        return; // Already in the scrollback
+      }
+      // Lines are laid out within the width that remains after their indentation
+      const width = Math.max(1, size.width - (line.indent || 0));
+      const rows = line.columns
+        ? [this.renderColumns(line, index, width)]
+        : layoutText(
+            this.renderPlaceholders(line, index, size.width),
+            width,
+            line.wrap,
+            line.align
+          );
+      rowCounts.push(rows.length);
       nextLines = nextLines.concat(
-        indentString(
-          wrapAnsi(line.text.replace(SPINNER, this.spinnerColor(this.nextSpinner)), size.width, {
-            hard: true,
-            trim: false
-          }),
-          line.indent || 0
-        )
+        indentString(carryStyles(rows).join("\n"), line.indent || 0)
           .split("\n")
           .map(splitLine => ({
             force: line.force === true ? true : false,
@@ -289,21 +947,35 @@ class DynamicTerminalThread {
       );
     });
 
+    // Rows that left the viewport (after a resize) can no longer be addressed
+    if (previousLines.length > size.height) {
+      const lostLines = previousLines.length - size.height;
+      previousLines = previousLines.slice(lostLines);
+      previousWrapped = previousWrapped.slice(lostLines);
+      if (this.overflow === "scroll") {
+        this.scrolledLines += lostLines;
+      }
+    }
+    nextLines = this.fitToViewport(nextLines, size.height);
+
     // Update the stored cursor position if the terminal was resized since last render
+    // The cursor was left at the end of the last row, or in the last column if the row fills it
+    const lastWidth = textWidth(previousLines[previousLines.length - 1] || "");
     this.cursorLine = Math.max(0, previousLines.length - 1);
-    this.cursorIndex = (previousLines[previousLines.length - 1] || "").length;
+    this.cursorIndex = reflowed ? lastWidth + cursorPadding : Math.min(lastWidth, this.cursorIndex);
 
     // Check if a full repaint needs to happen
-    if (this.repaintOnResize && this.previousSize.width !== size.width) {
+    const resized =
+      this.previousSize.width !== size.width || this.previousSize.height !== size.height;
+    this.previousSize = size;
+    // The alternate screen isn't reflowed, it's simpler to start again
+    if ((this.repaintOnResize || this.fullscreen) && resized) {
       previousLines = [];
+      previousWrapped = [];
       this.moveCursorTo(0, 0);
-      process.stdout.write(ansi.eraseDown);
-      this.previousSize = size;
+      this.write(ansi.eraseDown);
     }
 
-    // The previous spinner state is no longer needed, update it for the next render
-    this.previousSpinner = this.nextSpinner;
-
     // Create an array of all the necessary changes that need to be applied to update the terminal
     let changes: IChange[] = [];
 
@@ -325,17 +997,17 @@ class DynamicTerminalThread {
       changes = changes.concat(lineChanges);
     }
 
-    // Erase the rest of the screen if there are trailing lines
+    // Erase the rest of the screen if there are trailing lines, starting
+    // from the end of the last line that is kept
     if (previousLines.length > nextLines.length) {
-      if (changes.length > 0) {
-        changes[changes.length - 1].text += ansi.eraseDown;
-      } else {
-        changes.push({
-          index: 0,
-          line: 0,
-          text: ansi.eraseDown
-        });
-      }
+      const lastLine = nextLines.length - 1;
+      const index = lastLine < 0 ? 0 : textWidth(nextLines[lastLine].text);
+      // A line that fills the width would have its last character erased, start on the next one
+      changes.push(
+        index >= size.width
+          ? { index: 0, line: lastLine + 1, text: ansi.eraseDown }
+          : { index, line: Math.max(0, lastLine), text: ansi.eraseDown }
+      );
     }
 
     // Iterate over each change and overwrite the console
@@ -343,20 +1015,42 @@ class DynamicTerminalThread {
       for (const change of changes) {
         this.moveCursorTo(change.line, change.index);
         this.write(change.text);
-        this.cursorIndex += stripAnsi(change.text).length;
+        this.cursorIndex += textWidth(change.text);
       }
     }
 
     // Move the cursor to the very end (known position) to compensate for terminal resizing
     this.moveCursorTo(
       Math.max(0, nextLines.length - 1),
-      (nextLines[nextLines.length - 1] || { text: "" }).text.length
+      textWidth((nextLines[nextLines.length - 1] || { text: "" }).text)
     );
 
+    // Rows stay joined to the next one until they're erased
+    const nextWrapped = nextLines.map((_, index) => !!previousWrapped[index]);
+    for (const change of changes) {
+      if (change.text.indexOf(ansi.eraseDown) !== -1) {
+        nextWrapped.fill(false, change.line);
+      } else if (change.text.indexOf(ansi.eraseEndLine) !== -1) {
+        nextWrapped[change.line] = false;
+      }
+    }
+
+    // Rows above the viewport have scrolled into the scrollback, and are now committed
+    if (this.overflow === "scroll" && nextLines.length > size.height) {
+      const scrolled = nextLines.length - size.height;
+      nextLines = nextLines.slice(scrolled);
+      nextWrapped.splice(0, scrolled);
+      this.scrolledLines += scrolled;
+      this.cursorLine -= scrolled;
+    }
+    if (this.overflow === "scroll") {
+      this.commitScrolledLines(rowCounts);
+    }
+
     // Store the current render *with current line wrapping applied*
-    this.previousRender = nextLines.map(line => ({
-      indent: 0,
-      text: line.text
+    this.previousRender = nextLines.map((line, index) => ({
+      text: line.text,
+      wrapped: nextWrapped[index]
     }));
 
     if (renderDebug.enabled) {
@@ -370,6 +1064,112 @@ class DynamicTerminalThread {
     }
   }
 
+  /**
+   * Reflows the rows of the previous frame the way the terminal does when its
+   * width changes, and VirtualTerminal as well. Rows that were split by an
+   * earlier resize are joined again, blanks at the end of the last row don't
+   * take up cells, and the line is split at the new width wherever that falls.
+   */
+  private reflowRows(rows: IRow[], width: number): IRow[] {
+    const reflowed: IRow[] = [];
+    let text = "";
+    rows.forEach((row, index) => {
+      const wrapped = row.wrapped && index < rows.length - 1;
+      text += wrapped ? row.text : trimTrailingBlanks(row.text);
+      if (wrapped) {
+        return;
+      }
+      const split = wrapCells(text, width);
+      split.forEach((part, i) => reflowed.push({ text: part, wrapped: i < split.length - 1 }));
+      text = "";
+    });
+    return reflowed;
+  }
+
+  /**
+   * Counts the lines whose rows have all scrolled into the scrollback. The
+   * render queue keeps them, so that callers can keep passing the full list of
+   * lines to update(), and the committed ones are skipped.
+   *
+   * @param rowCounts The number of rows of each line that was laid out
+   */
+  private commitScrolledLines(rowCounts: number[]) {
+    let committed = 0;
+    while (committed < rowCounts.length && rowCounts[committed] <= this.scrolledLines) {
+      this.scrolledLines -= rowCounts[committed];
+      committed++;
+    }
+    if (committed > 0) {
+      this.committedLines += committed;
+      this.debug(chalk.cyan("SCROLL"), `Committed ${committed} lines to the scrollback`);
+    }
+  }
+
+  /**
+   * Applies the overflow policy to the wrapped lines. The result never needs
+   * to address a row above the viewport, which the cursor can't reach.
+   */
+  private fitToViewport(
+    lines: Array<{ text: string; force?: boolean }>,
+    height: number
+  ): Array<{ text: string; force?: boolean }> {
+    switch (this.overflow) {
+      case "scroll":
+        // Committed rows are skipped, the rest is allowed to scroll during the render
+        return lines.slice(this.scrolledLines);
+      case "head":
+        if (lines.length > height) {
+          const shown = Math.max(0, height - 1);
+          return lines
+            .slice(0, shown)
+            .concat([{ text: chalk.dim(`+${lines.length - shown} more`) }]);
+        }
+        return lines;
+      case "tail":
+      default:
+        return lines.length > height ? lines.slice(lines.length - height) : lines;
+    }
+  }
+
+  /**
+   * Returns the size of the output stream, falling back to a default size
+   * for streams that aren't attached to a terminal.
+   */
+  private getSize(): { width: number; height: number } {
+    const size = this.size || this.output;
+    return {
+      height: size.rows || DEFAULT_SIZE.height,
+      width: size.columns || DEFAULT_SIZE.width
+    };
+  }
+
+  /** Reflows and repaints the session as soon as the terminal is resized */
+  private onResize = () => {
+    if (this.active) {
+      this.debug(chalk.cyan("RESIZE"), `Resized to ${JSON.stringify(this.getSize())}`);
+      this.flush();
+    }
+  };
+
+  /** Resolves the output option into the stream that will be written to */
+  private resolveOutput(output: IOptions["output"], forwarded?: IForwardedOutput): OutputStream {
+    if (forwarded) {
+      const stream: OutputStream = new PassThrough();
+      stream.on("data", chunk => this.sendMessage({ status: "output", data: chunk.toString() }));
+      stream.isTTY = forwarded.isTTY;
+      stream.columns = forwarded.columns;
+      stream.rows = forwarded.rows;
+      return stream;
+    }
+    if (output === "stderr") {
+      return process.stderr;
+    }
+    if (typeof output === "object" && output !== null) {
+      return output;
+    }
+    return process.stdout;
+  }
+
   /**
    * Converts the input intelligently into an array of Line objects
    */
@@ -386,10 +1186,17 @@ class DynamicTerminalThread {
       for (const element of text) {
         if (typeof element === "string") {
           lineArray = lineArray.concat(this.splitStringToLineObjects(element));
+        } else if (typeof element === "object" && Array.isArray(element.columns)) {
+          // A row is a single line, whatever its columns contain
+          const columnText = element.columns.map(column => column.text).join(" ");
+          lineArray.push({
+            ...element,
+            force: element.force || false,
+            indent: element.indent || 0,
+            text: columnText.replace(/\n/g, " ")
+          });
         } else if (typeof element === "object" && typeof element.text === "string") {
-          lineArray = lineArray.concat(
-            this.splitStringToLineObjects(element.text, element.indent || 0, element.force || false)
-          );
+          lineArray = lineArray.concat(this.splitStringToLineObjects(element.text, element));
         }
       }
     } else if (typeof text === "string") {
@@ -400,24 +1207,116 @@ class DynamicTerminalThread {
   }
 
   /**
-   * Splits each line of a string into line objects
+   * Splits each line of a string into line objects, copying the
+   * other properties of the original line to each of them
    */
-  private splitStringToLineObjects(
-    text: string,
-    indent: number = 0,
-    force: boolean = false
-  ): ILine[] {
-    return text.split("\n").map(v => ({ text: v, indent, force }));
+  private splitStringToLineObjects(text: string, line: ILine = {}): ILine[] {
+    const split = text.split("\n");
+    // A progress bar is only rendered once, on the line with the placeholder or the last line
+    const progressLine = split.some(v => v.indexOf(PROGRESS) !== -1)
+      ? split.findIndex(v => v.indexOf(PROGRESS) !== -1)
+      : split.length - 1;
+    return split.map((v, i) => ({
+      ...line,
+      force: line.force || false,
+      indent: line.indent || 0,
+      progress: i === progressLine ? line.progress : undefined,
+      text: v
+    }));
   }
 
   /** This updates the spinner rotation, and orders a render */
   private updateSpinner() {
-    this.nextSpinner = this.spinner();
-    this.render();
+    this.spinnerTime += this.timerInterval;
+    this.scheduleRender();
+  }
+
+  /**
+   * Replaces the SPINNER and PROGRESS placeholders of a line, and wraps it in its
+   * hyperlink. Links that are already in the text are kept in a form that survives wrapping.
+   */
+  private renderPlaceholders(line: ILine, index: number, width: number): string {
+    let text = normalizeHyperlinks(line.text).replace(SPINNER, this.getSpinner(line));
+    if (line.progress) {
+      if (text.indexOf(PROGRESS) === -1) {
+        text += " " + PROGRESS;
+      }
+      const key = line.id !== undefined ? "id:" + line.id : "index:" + index;
+      let state = this.progressStates.get(key);
+      if (!state || line.progress.current < state.startValue) {
+        state = { startTime: Date.now(), startValue: line.progress.current || 0 };
+        this.progressStates.set(key, state);
+      }
+      const available = width - (line.indent || 0) - textWidth(text.replace(PROGRESS, ""));
+      text = text.replace(PROGRESS, formatProgress(line.progress, state, available));
+    }
+    if (line.link) {
+      // Control characters would terminate the escape code early
+      text =
+        hyperlinkCode(";" + line.link.replace(/[\x00-\x1F\x7F]/g, "")) + text + hyperlinkCode();
+    }
+    return text;
+  }
+
+  /**
+   * Lays out the columns of a row, with their placeholders rendered. The progress
+   * bar is rendered in the column with the PROGRESS placeholder, if there is one.
+   */
+  private renderColumns(line: ILine, index: number, width: number): string {
+    const render = (column: ILineColumn, columnWidth: number) =>
+      this.renderPlaceholders(
+        {
+          id: line.id,
+          progress: column.text.indexOf(PROGRESS) !== -1 ? line.progress : undefined,
+          spinner: line.spinner,
+          text: column.text.replace(/\n/g, " ")
+        },
+        index,
+        columnWidth
+      );
+    const widths = getColumnWidths(line.columns, width, column =>
+      textWidth(render({ ...column, text: column.text.replace(PROGRESS, "") }, 0))
+    );
+    const columns = line.columns.map((column, i) => ({
+      ...column,
+      text: render(column, widths[i])
+    }));
+    const row = layoutColumns(columns, widths, width);
+    return line.link ? this.renderPlaceholders({ link: line.link, text: row }, index, width) : row;
+  }
+
+  /** Returns the current coloured spinner frame of a line */
+  private getSpinner(line: ILine): string {
+    const frame = getSpinnerFrame(
+      resolveSpinner(line.spinner, this.spinnerStyle),
+      this.spinnerTime
+    );
+    const colour =
+      typeof line.spinner === "object" && line.spinner.colour
+        ? getSpinnerColour(line.spinner.colour, this.spinnerColor)
+        : this.spinnerColor;
+    return colour(frame);
   }
 
   /** Moves the cursor to the specified line and index (relative to session start) */
   private moveCursorTo(line: number, index: number) {
+    // The session starts at the top of the alternate screen, positions are absolute
+    if (this.fullscreen) {
+      if (line !== this.cursorLine || index !== this.cursorIndex) {
+        this.write(ansi.cursorTo(index, line));
+        this.cursorLine = line;
+        this.cursorIndex = index;
+      }
+      return;
+    }
+
+    // After writing the last column the cursor is held there until the next character,
+    // relative movements would be off by one
+    if (this.cursorIndex >= this.renderWidth && index !== this.cursorIndex) {
+      this.write("\r");
+      this.cursorIndex = 0;
+    }
+
     if (line < this.cursorLine) {
       this.write(`\x1B[${this.cursorLine - line}F`);
       this.cursorLine = line;
@@ -430,7 +1329,8 @@ class DynamicTerminalThread {
 
     if (index > this.cursorIndex) {
       this.write(`\x1B[${index - this.cursorIndex}C`);
-      this.cursorIndex = index;
+      // The cursor stops at the last column
+      this.cursorIndex = Math.min(index, this.renderWidth - 1);
     } else if (index < this.cursorIndex) {
       if (index === 0) {
         this.write("\r");
@@ -442,17 +1342,31 @@ class DynamicTerminalThread {
   }
 
   /**
-   * Starts the interval timer if there is a spinner in the render queue
+   * Starts the interval timer if there is a spinner in the render queue. The timer
+   * ticks at the greatest common divisor of the active spinners' intervals, but
+   * no faster than frames are rendered, and is restarted if that changes.
    */
   private startTimer() {
-    if (!this.renderInterval && this.active) {
-      for (const nextRenderLine of this.nextRender) {
-        if (nextRenderLine.text.indexOf(SPINNER) !== -1) {
-          this.renderInterval = setInterval(this.updateSpinner.bind(this), this.updateFrequency);
-          this.debug(chalk.cyan("TIMER"), "Spinner present, starting timer");
-          break;
-        }
-      }
+    if (!this.active || this.mode !== "interactive") {
+      return;
+    }
+    const interval = getTimerInterval(
+      this.nextRender
+        .filter(line => line.text.indexOf(SPINNER) !== -1)
+        .map(line => resolveSpinner(line.spinner, this.spinnerStyle).interval),
+      1000 / (this.maxFps > 0 ? this.maxFps : DEFAULT_OPTIONS.maxFps)
+    );
+    if (this.renderInterval && interval === this.timerInterval) {
+      return;
+    }
+    if (this.renderInterval) {
+      clearInterval(this.renderInterval);
+      this.renderInterval = false;
+    }
+    if (interval > 0) {
+      this.timerInterval = interval;
+      this.renderInterval = setInterval(this.updateSpinner.bind(this), interval);
+      this.debug(chalk.cyan("TIMER"), `Spinner present, ticking every ${interval}ms`);
     }
   }
 
@@ -465,9 +1379,29 @@ class DynamicTerminalThread {
     }
   }
 
+  /** Starts collecting writes, which are sent in a single write by endFrame() */
+  private beginFrame() {
+    this.frameDepth++;
+  }
+
+  /** Writes everything that was collected since the outermost beginFrame() */
+  private endFrame() {
+    this.frameDepth = Math.max(0, this.frameDepth - 1);
+    if (this.frameDepth === 0 && this.frameBuffer !== "") {
+      const frame = this.frameBuffer;
+      this.frameBuffer = "";
+      this.write(this.synchronizedOutput ? SYNC_START + frame + SYNC_END : frame);
+    }
+  }
+
   private write(text: string) {
-    if (!defaultDebug.enabled) {
-      process.stdout.write(text);
+    if (this.frameDepth > 0) {
+      this.frameBuffer += text;
+    } else if (!defaultDebug.enabled) {
+      writeThrough(this.output, text);
+      if (this.recorder) {
+        this.recorder.output(text);
+      }
     }
   }
 
@@ -483,53 +1417,132 @@ class DynamicTerminalThread {
   }
 }
 
-const worker = new DynamicTerminalThread();
+/**
+ * Executes a command received from the DynamicTerminal controller, and replies
+ * with the status. This is shared by every transport that hosts the thread.
+ * The DESTROY command depends on the transport, and must be handled by it.
+ */
+export function handleMessage(thread: DynamicTerminalThread, msg: Command, reply: MessageSender) {
+  if (typeof msg !== "object" || msg === null) {
+    return;
+  }
+  const uuid = msg.uuid;
+  const fail = (code: TerminalErrorCode, message: string) => reply(errorReply(uuid, code, message));
+  // Rejects a command whose data can't be used, before it reaches the thread
+  const invalid = (problem: string): boolean => {
+    if (problem) {
+      fail("InvalidArgument", problem);
+    }
+    return !!problem;
+  };
+  const afterRender = (done: () => void) =>
+    thread.whenRendered(error => (error ? fail("RenderError", error.message) : done()));
 
-process.on("message", msg => {
-  if (typeof msg === "object") {
-    try {
-      switch (msg.cmd) {
-        case "START":
-          worker.start(msg.options);
-          process.send({ status: "started", uuid: msg.uuid });
-          break;
-        case "STOP":
-          worker.stop(msg.commit);
-          process.send({ status: "stopped", uuid: msg.uuid });
-          break;
-        case "DESTROY":
-          defaultDebug("Destroying...");
-          // The exit hook will automatically trigger cleanup
-          process.kill(process.pid, "SIGTERM");
-          break;
-        case "UPDATE":
-          worker.update(msg.text);
-          process.send({ status: "updated", uuid: msg.uuid });
-          break;
-        case "APPEND":
-          worker.update(msg.text);
-          process.send({ status: "appended", uuid: msg.uuid });
+  try {
+    switch (msg.cmd) {
+      case "START":
+        if (msg.version !== PROTOCOL_VERSION) {
+          fail(
+            "ProtocolMismatch",
+            `The worker speaks protocol version ${PROTOCOL_VERSION}, not ${msg.version}`
+          );
           break;
-        case "RENDER":
-          if (msg.force === true) {
-            worker.resetRender();
-          }
-          worker.render();
-          process.send({ status: "rendered", uuid: msg.uuid });
+        }
+        thread.start(
+          withSpinnerCodes(msg.options, msg.spinnerCodes),
+          msg.forwarded,
+          msg.size,
+          msg.region
+        );
+        reply({ restore: thread.getRestoreSequence(), status: "started", uuid });
+        break;
+      case "STOP":
+        if (thread.stop(msg.commit, msg.region)) {
+          reply({ ended: true, status: "stopped", uuid });
+        } else {
+          afterRender(() => reply({ ended: false, status: "stopped", uuid }));
+        }
+        break;
+      case "UPDATE":
+        if (invalid(checkLines(msg.text))) {
           break;
-        case "RENDER_QUEUE":
-          process.send({
-            data: worker.getLines(),
-            status: "renderQueue",
-            uuid: msg.uuid
-          });
+        }
+        thread.update(msg.text, msg.region);
+        afterRender(() => reply({ status: "updated", uuid }));
+        break;
+      case "APPEND":
+        if (invalid(checkLines(msg.text))) {
           break;
-        default:
-          process.send({ status: "error", uuid: msg.uuid });
+        }
+        thread.append(msg.text, msg.region);
+        afterRender(() => reply({ status: "appended", uuid }));
+        break;
+      case "PATCH":
+        if (invalid(checkPatch(msg.changes))) {
           break;
-      }
-    } catch (err) {
-      process.send({ status: "error", error: err, uuid: msg.uuid });
+        }
+        thread.patch(msg.id, msg.changes);
+        afterRender(() => reply({ status: "patched", uuid }));
+        break;
+      case "PROGRESS":
+        thread.setProgress(msg.id, msg.current, msg.total);
+        afterRender(() => reply({ status: "progressed", uuid }));
+        break;
+      case "FLUSH":
+        afterRender(() => reply({ status: "flushed", uuid }));
+        thread.flush();
+        break;
+      case "RESIZE":
+        thread.resize(msg.columns, msg.rows);
+        reply({ status: "resized", uuid });
+        break;
+      case "LOG":
+        thread.log(msg.text);
+        reply({ status: "logged", uuid });
+        break;
+      case "RENDER":
+        if (msg.force === true) {
+          thread.resetRender();
+        }
+        afterRender(() => reply({ status: "rendered", uuid }));
+        thread.render();
+        break;
+      case "RENDER_QUEUE":
+        reply({
+          data: thread.getLines(msg.region),
+          status: "renderQueue",
+          uuid
+        });
+        break;
+      case "DESTROY":
+        break; // The transport ends the thread before the command gets here
+      default:
+        fail("InvalidCommand", `Unknown command "${unknownCommand(msg)}"`);
+        break;
     }
+  } catch (err) {
+    fail("WorkerError", (err && err.message) || String(err));
   }
-});
+}
+
+/**
+ * Every known command is handled, so the type of an unknown one is never. It
+ * can still arrive from a controller of another version of the package.
+ */
+function unknownCommand(msg: never): unknown {
+  return (msg as { cmd?: unknown }).cmd;
+}
+
+/** Turns the codes that a remote controller sends for the spinnerColour option into a function */
+function withSpinnerCodes(options: IOptions, codes?: [string, string]): IOptions {
+  if (!codes) {
+    return options;
+  }
+  const [open, close] = codes;
+  return { ...options, spinnerColour: text => open + text + close };
+}
+
+/** Errors are sent as plain objects, as Error instances don't survive IPC */
+function errorReply(uuid: string, code: TerminalErrorCode, message: string): IErrorReply {
+  return { error: { code, message }, status: "error", uuid };
+}
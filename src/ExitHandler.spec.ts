@@ -0,0 +1,58 @@
+import test from "ava";
+import { spawnSync } from "child_process";
+
+/**
+ * Runs a script in a process of its own, after a session was started with the
+ * options on a VirtualTerminal, and returns what the script printed
+ */
+function run(options: object, script: string): string {
+  const setup = `
+    const { DynamicTerminal, VirtualTerminal } = require("./index");
+    const screen = new VirtualTerminal(20, 5);
+    const dt = new DynamicTerminal({ mode: "inline" });
+    const print = () => console.log(JSON.stringify(screen.getLines()));
+    const printCursor = () => console.log(screen.cursorVisible);
+    dt.start({ ...${JSON.stringify(options)}, output: screen }).then(() => dt.update(["a", "b"]))
+  `;
+  const { stdout } = spawnSync(process.execPath, ["-e", setup + script], {
+    cwd: __dirname,
+    encoding: "utf8",
+    timeout: 20000
+  });
+  return stdout.trim();
+}
+
+test("leaves the session running on a signal that the application handles", t => {
+  const printed = run(
+    { commitOnExit: false },
+    `.then(() => {
+      const alive = setTimeout(() => undefined, 10000); // Until the signal arrives
+      process.on("SIGINT", () => {
+        clearTimeout(alive);
+        dt.update(["c"]).then(print).then(() => dt.destroy());
+      });
+      process.kill(process.pid, "SIGINT");
+    });`
+  );
+  t.is(printed, JSON.stringify(["c"]));
+});
+
+test("erases the session when the process exits with commitOnExit: false", t => {
+  const exit = `.then(() => {
+    process.on("exit", print);
+    process.exit(0);
+  });`;
+  t.is(run({ commitOnExit: false, hideCursor: true }, exit), JSON.stringify([]));
+  t.is(run({ hideCursor: true }, exit), JSON.stringify(["a", "b"]));
+  t.is(
+    run(
+      { hideCursor: true },
+      `.then(() => {
+      process.on("exit", printCursor);
+      process.exit(0);
+    });`
+    ),
+    "true",
+    "shows the cursor again"
+  );
+});
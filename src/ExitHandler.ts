@@ -0,0 +1,45 @@
+// The cleanup of every live terminal and worker in this process
+const cleanups = new Set<() => void>();
+let registered = false;
+
+/** Runs each cleanup once, they are removed as the process is about to end */
+function cleanUp() {
+  const pending = Array.from(cleanups);
+  cleanups.clear();
+  for (const cleanup of pending) {
+    cleanup();
+  }
+}
+
+/**
+ * Restores the terminal on a signal that ends the process, then raises it
+ * again to end the process the default way. If the application listens to the
+ * signal, the process may keep going, and the sessions are left running.
+ */
+function onSignal(signal: NodeJS.Signals) {
+  if (process.listenerCount(signal) === 1) {
+    cleanUp();
+    process.removeListener(signal, onSignal);
+    process.kill(process.pid, signal);
+  }
+}
+
+/**
+ * Runs a cleanup when the process exits, on SIGINT or on SIGTERM. The process
+ * listeners are added once and shared by every terminal, so creating and
+ * destroying terminals doesn't add more of them.
+ *
+ * @returns Removes the cleanup
+ */
+export function addExitHandler(cleanup: () => void): () => void {
+  if (!registered) {
+    registered = true;
+    process.once("exit", cleanUp);
+    process.on("SIGINT", onSignal);
+    process.on("SIGTERM", onSignal);
+  }
+  cleanups.add(cleanup);
+  return () => {
+    cleanups.delete(cleanup);
+  };
+}
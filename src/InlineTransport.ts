@@ -0,0 +1,51 @@
+import { EventEmitter } from "events";
+
+import { DynamicTerminalThread, handleMessage } from "./DynamicTerminalThread";
+import { Command } from "./Protocol";
+import { ITransport } from "./Transport";
+
+/**
+ * Hosts the thread in the current process. Works where forking isn't possible,
+ * such as in bundlers, Electron or sandboxes, at the cost of rendering on the
+ * main thread.
+ */
+export class InlineTransport extends EventEmitter implements ITransport {
+  public readonly remote = false;
+  public readonly sharesStdio = true;
+
+  private thread: DynamicTerminalThread;
+
+  constructor() {
+    super();
+    this.thread = new DynamicTerminalThread(message => this.emit("message", message));
+  }
+
+  public isConnected(): boolean {
+    return this.thread !== null;
+  }
+
+  public send(message: Command, callback?: (err: Error) => void) {
+    if (!this.thread) {
+      if (callback) {
+        callback(new Error("The inline thread has been destroyed"));
+      }
+      return;
+    }
+    if (message.cmd === "DESTROY") {
+      this.destroy(); // As the other transports do, without a reply
+    } else {
+      handleMessage(this.thread, message, reply => this.emit("message", reply));
+    }
+    if (callback) {
+      callback(null);
+    }
+  }
+
+  public destroy() {
+    if (this.thread) {
+      this.thread.destroy();
+      this.thread = null;
+      this.emit("disconnect");
+    }
+  }
+}
@@ -0,0 +1,84 @@
+import test from "ava";
+import chalk from "chalk";
+import { PassThrough } from "stream";
+
+import { DynamicTerminal } from "./DynamicTerminal";
+import { toJsonLine } from "./JsonEvents";
+
+test("describes a line without its codes and placeholders", t => {
+  t.deepEqual(toJsonLine({ indent: 2, text: chalk.bold("Install") }), {
+    indent: 2,
+    text: "Install"
+  });
+  t.deepEqual(
+    toJsonLine({
+      id: "deploy",
+      link: "https://a.com",
+      progress: { current: 1, total: 4 },
+      text: `Deploy ${DynamicTerminal.PROGRESS}`
+    }),
+    {
+      id: "deploy",
+      indent: 0,
+      link: "https://a.com",
+      progress: { current: 1, total: 4 },
+      status: "running",
+      text: "Deploy"
+    }
+  );
+});
+
+test("guesses the status of a line from its spinner, progress and symbols", t => {
+  const status = (text: string, progress?: { current: number; total: number }) =>
+    toJsonLine({ progress, text }).status;
+  t.is(status(`${DynamicTerminal.SPINNER} Install`), "running");
+  t.is(status(`${DynamicTerminal.CROSS} Install`), "failed");
+  t.is(status(`${DynamicTerminal.TICK} Install`), "success");
+  t.is(status("Install", { current: 4, total: 4 }), "success");
+  t.is(status("Install"), undefined);
+  t.is(toJsonLine({ status: "queued", text: DynamicTerminal.SPINNER }).status, "queued");
+});
+
+test("writes each change as an event in the json mode", async t => {
+  const output = new PassThrough();
+  let written = "";
+  output.on("data", data => (written += data));
+  const dt = new DynamicTerminal({ mode: "inline" });
+  await dt.start({ mode: "json", output });
+  await dt.update({ id: "install", progress: { current: 0, total: 2 }, text: "Install" });
+  await dt.append({ id: "deploy", text: chalk.red("Deploy") });
+  await dt.progress("install", 1);
+  await dt.patch("install", { text: "Installing" });
+  await dt.log(chalk.bold("logged"));
+  await dt.stop();
+  dt.destroy();
+
+  const install = {
+    id: "install",
+    indent: 0,
+    progress: { current: 1, total: 2 },
+    status: "running"
+  };
+  const events = written
+    .trim()
+    .split("\n")
+    .map(line => ({ ...JSON.parse(line), time: 0 }));
+  t.deepEqual(events, [
+    { event: "start", time: 0 },
+    {
+      event: "update",
+      lines: [{ ...install, progress: { current: 0, total: 2 }, text: "Install" }],
+      time: 0
+    },
+    { event: "append", lines: [{ id: "deploy", indent: 0, text: "Deploy" }], time: 0 },
+    { current: 1, event: "progress", id: "install", time: 0, total: 2 },
+    { event: "patch", id: "install", lines: [{ ...install, text: "Installing" }], time: 0 },
+    { event: "log", text: "logged", time: 0 },
+    {
+      commit: true,
+      event: "stop",
+      lines: [{ ...install, text: "Installing" }, { id: "deploy", indent: 0, text: "Deploy" }],
+      time: 0
+    }
+  ]);
+});
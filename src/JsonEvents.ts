@@ -0,0 +1,66 @@
+import { CROSS, ILine, PROGRESS, SPINNER, TICK } from "./DynamicTerminalThread";
+import { escapeCodeRegex } from "./Style";
+
+/** A line as described by a JSON event, without any escape codes */
+export interface IJsonLine {
+  id?: string;
+  text: string;
+  indent: number;
+  /** The line's own status, or "running", "success" or "failed" if it has a spinner or a symbol */
+  status?: string;
+  progress?: { current: number; total: number };
+  link?: string;
+}
+
+/**
+ * An event written by the "json" output mode, one per line. Lines are given in
+ * full, so that the state of the session can be rebuilt from the events alone.
+ */
+export type JsonEvent =
+  | { event: "start"; time: number }
+  | { event: "update"; time: number; lines: IJsonLine[] }
+  | { event: "append"; time: number; lines: IJsonLine[] }
+  | { event: "patch"; time: number; id: string; lines: IJsonLine[] }
+  | { event: "progress"; time: number; id: string; current: number; total: number }
+  | { event: "log"; time: number; text: string }
+  | { event: "stop"; time: number; commit: boolean; lines: IJsonLine[] };
+
+/** Describes a line for a JSON event, removing escape codes and placeholders */
+export function toJsonLine(line: ILine): IJsonLine {
+  const text = line.text
+    .replace(SPINNER, "")
+    .replace(PROGRESS, "")
+    .replace(escapeCodeRegex(), "")
+    .trim();
+  const json: IJsonLine = { text, indent: line.indent || 0 };
+
+  if (line.id !== undefined) {
+    json.id = line.id;
+  }
+  const status = line.status || getStatus(line);
+  if (status) {
+    json.status = status;
+  }
+  if (line.progress) {
+    json.progress = { current: line.progress.current, total: line.progress.total };
+  }
+  if (line.link) {
+    json.link = line.link;
+  }
+  return json;
+}
+
+/** Guesses the status of a line from its spinner, progress and symbols */
+function getStatus(line: ILine): string {
+  const progressing = line.progress && line.progress.current < line.progress.total;
+  if (line.text.indexOf(SPINNER) !== -1 || progressing) {
+    return "running";
+  }
+  if (line.text.indexOf(CROSS) !== -1) {
+    return "failed";
+  }
+  if (line.text.indexOf(TICK) !== -1 || line.progress) {
+    return "success";
+  }
+  return undefined;
+}
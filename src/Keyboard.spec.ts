@@ -0,0 +1,44 @@
+import test from "ava";
+import { PassThrough } from "stream";
+
+import { IKey, Keyboard } from "./Keyboard";
+
+/** Types the sequence into the input, and waits for its keys to be read */
+async function type(input: PassThrough, sequence: string) {
+  input.write(sequence);
+  await new Promise(resolve => setImmediate(resolve));
+}
+
+test("reads the keys of the input", async t => {
+  const input = new PassThrough();
+  const keyboard = new Keyboard(input);
+  const keys: IKey[] = [];
+  keyboard.listen(key => keys.push(key));
+
+  await type(input, "a\x1B[A\r\x01");
+  t.deepEqual(keys.map(key => [key.name, key.ctrl]), [
+    ["a", false],
+    ["up", false],
+    ["return", false],
+    ["a", true]
+  ]);
+  t.is(keys[1].sequence, "\x1B[A");
+  keyboard.close();
+});
+
+test("stops reading once nobody listens", async t => {
+  const input = new PassThrough();
+  const keyboard = new Keyboard(input);
+  const first: string[] = [];
+  const second: string[] = [];
+  const stop = keyboard.listen(key => first.push(key.name));
+  keyboard.listen(key => second.push(key.name), () => second.push("closed"));
+
+  await type(input, "a");
+  stop();
+  await type(input, "b");
+  keyboard.close();
+  t.deepEqual(first, ["a"]);
+  t.deepEqual(second, ["a", "b", "closed"]);
+  t.true(input.isPaused(), "the input doesn't keep the process alive");
+});
@@ -0,0 +1,111 @@
+import readline from "readline";
+
+/** A key that was pressed, as parsed by Node's readline module */
+export interface IKey {
+  /** The name of the key, such as "a", "return", "backspace", "up" or "escape" */
+  name: string;
+  /** The characters that the terminal sent for the key */
+  sequence: string;
+  ctrl: boolean;
+  meta: boolean;
+  shift: boolean;
+}
+
+export type KeypressListener = (key: IKey) => void;
+
+interface IListener {
+  onKey: KeypressListener;
+  /** Called if the listener is removed by close() */
+  onClose?: () => void;
+}
+
+/** A stream that keys are read from, usually stdin */
+export type InputStream = NodeJS.ReadableStream & {
+  isTTY?: boolean;
+  isRaw?: boolean;
+  setRawMode?: (mode: boolean) => void;
+};
+
+/**
+ * Reads keypresses from an input stream. While anyone is listening, a TTY is
+ * put in raw mode, so that keys arrive one at a time without being echoed.
+ * Ctrl+C still interrupts the process, as it would without raw mode.
+ */
+export class Keyboard {
+  private input: InputStream;
+  private listeners: IListener[] = [];
+  private wasRaw: boolean = null; // Used to restore the input once nobody is listening
+
+  constructor(input: InputStream) {
+    this.input = input;
+  }
+
+  /**
+   * Calls the listener for every key, until the returned function is called
+   *
+   * @param onClose Called if the listener is removed because the keyboard is closed
+   */
+  public listen(onKey: KeypressListener, onClose?: () => void): () => void {
+    if (this.listeners.length === 0) {
+      this.attach();
+    }
+    const listener = { onKey, onClose };
+    this.listeners.push(listener);
+    return () => this.unlisten(listener);
+  }
+
+  /** Removes every listener, and releases the input */
+  public close() {
+    if (this.listeners.length > 0) {
+      const closed = this.listeners;
+      this.listeners = [];
+      this.detach();
+      closed.forEach(listener => listener.onClose && listener.onClose());
+    }
+  }
+
+  private unlisten(listener: IListener) {
+    const index = this.listeners.indexOf(listener);
+    if (index !== -1) {
+      this.listeners.splice(index, 1);
+      if (this.listeners.length === 0) {
+        this.detach();
+      }
+    }
+  }
+
+  private attach() {
+    readline.emitKeypressEvents(this.input);
+    if (this.input.isTTY && typeof this.input.setRawMode === "function") {
+      this.wasRaw = !!this.input.isRaw;
+      this.input.setRawMode(true);
+    }
+    this.input.on("keypress", this.onKeypress);
+    this.input.resume();
+  }
+
+  private detach() {
+    this.input.removeListener("keypress", this.onKeypress);
+    if (this.wasRaw !== null) {
+      this.input.setRawMode(this.wasRaw);
+      this.wasRaw = null;
+    }
+    this.input.pause(); // Otherwise, the input keeps the process alive
+  }
+
+  private onKeypress = (sequence: string, key: readline.Key = {}) => {
+    const pressed: IKey = {
+      ctrl: !!key.ctrl,
+      meta: !!key.meta,
+      name: key.name || sequence || "",
+      sequence: key.sequence || sequence || "",
+      shift: !!key.shift
+    };
+    // Raw mode stops the terminal from turning Ctrl+C into a signal
+    if (this.wasRaw !== null && pressed.ctrl && pressed.name === "c") {
+      process.kill(process.pid, "SIGINT");
+      return;
+    }
+    this.listeners.slice().forEach(listener => listener.onKey(pressed));
+  };
+}
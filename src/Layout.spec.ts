@@ -0,0 +1,64 @@
+import test from "ava";
+
+import {
+  getColumnWidths,
+  ILineColumn,
+  layoutColumns,
+  layoutText,
+  truncate,
+  wrapCells
+} from "./Layout";
+
+const ESC = "\x1B";
+
+test("wraps text between words, or at the last column", t => {
+  t.deepEqual(layoutText("one two three", 8), ["one two ", "three"]);
+  t.deepEqual(layoutText("abcdefghij", 4), ["abcd", "efgh", "ij"]);
+  t.deepEqual(layoutText("one two three", 5, "hard"), ["one t", "wo th", "ree"]);
+  t.deepEqual(layoutText("one two three", 8, "truncate"), ["one two…"]);
+});
+
+test("aligns each row within the width", t => {
+  t.deepEqual(layoutText("one two three", 9, "word", "right"), ["  one two", "    three"]);
+  t.deepEqual(layoutText("one two three", 9, "word", "center"), [" one two", "  three"]);
+});
+
+test("shortens text with an ellipsis, and keeps its codes", t => {
+  t.is(truncate("abc", 3), "abc");
+  t.is(truncate("abcdef", 4), "abc…");
+  t.is(truncate("中文字", 4), "中…", "a wide character that doesn't fit is left out");
+  t.is(truncate(`${ESC}[31mabcdef${ESC}[39m`, 4), `${ESC}[31mabc…${ESC}[39m`);
+  t.is(truncate("abc", 0), "");
+});
+
+test("gives the rest of the row to the columns without a width", t => {
+  const columns: ILineColumn[] = [
+    { text: "name", width: 6 },
+    { text: "12%", width: "auto" },
+    { text: "" },
+    { text: "" }
+  ];
+  t.deepEqual(getColumnWidths(columns, 20), [6, 3, 4, 4]);
+  t.deepEqual(
+    getColumnWidths(columns, 21),
+    [6, 3, 5, 4],
+    "the first columns get the cells left over"
+  );
+  t.deepEqual(getColumnWidths(columns, 5), [6, 3, 0, 0]);
+});
+
+test("lays columns out on a row", t => {
+  const columns: ILineColumn[] = [
+    { text: "file.txt" },
+    { align: "right", text: "12%" },
+    { align: "center", text: "ok" }
+  ];
+  t.is(layoutColumns(columns, [6, 5, 4], 20), "file.…   12%  ok");
+  t.is(layoutColumns(columns, [6, 5, 4], 9), "file.… 1…", "columns that exceed the row are cut");
+});
+
+test("wraps text at the last column, like a terminal", t => {
+  t.deepEqual(wrapCells("abcdef", 4), ["abcd", "ef"]);
+  t.deepEqual(wrapCells("ab中文", 3), ["ab", "中", "文"]);
+  t.deepEqual(wrapCells(`${ESC}[1mabcdef${ESC}[0m`, 4), [`${ESC}[1mabcd`, `${ESC}[1mef${ESC}[0m`]);
+});
@@ -0,0 +1,181 @@
+import wrapAnsi from "wrap-ansi";
+
+import { carryStyles, escapeCodeRegex } from "./Style";
+import { graphemeWidth, splitGraphemes, textWidth } from "./Width";
+
+/** How the rows of a line are aligned within the terminal width */
+export type LineAlign = "left" | "center" | "right";
+
+/**
+ * How a line that is wider than the terminal is split:
+ * - `"word"` wraps between words, and splits words that don't fit on a row of their own
+ * - `"hard"` wraps at the last column, wherever that falls
+ * - `"truncate"` keeps a single row, ending with an ellipsis
+ */
+export type LineWrap = "word" | "hard" | "truncate";
+
+/** A column of a row, see ILine.columns */
+export interface ILineColumn {
+  text: string;
+  /**
+   * The width of the column in terminal cells, or "auto" to fit its text.
+   * Columns without a width share the rest of the row equally.
+   */
+  width?: number | "auto";
+  align?: LineAlign;
+}
+
+export const ELLIPSIS = "…";
+const COLUMN_GAP = 1;
+
+/**
+ * Splits text into rows that fit within a width, and aligns each of them.
+ * Escape codes are kept, styles are not carried over to the next row.
+ */
+export function layoutText(
+  text: string,
+  width: number,
+  wrap: LineWrap = "word",
+  align: LineAlign = "left"
+): string[] {
+  const trim = align !== "left"; // Trailing spaces would offset the alignment
+  const rows =
+    wrap === "truncate"
+      ? [truncate(text, width)]
+      : wrapAnsi(text, width, { hard: true, trim, wordWrap: wrap !== "hard" }).split("\n");
+  return align === "left" ? rows : rows.map(row => alignText(row, width, align, false));
+}
+
+/**
+ * Returns the width of each column of a row. Fixed and "auto" widths are
+ * taken first, the rest of the row is shared by the other columns.
+ *
+ * @param measure Returns the width of a column's text, for "auto" columns
+ */
+export function getColumnWidths(
+  columns: ILineColumn[],
+  width: number,
+  measure: (column: ILineColumn) => number = column => textWidth(column.text)
+): number[] {
+  const sized = columns.map(column =>
+    typeof column.width === "number"
+      ? Math.max(0, Math.floor(column.width))
+      : column.width === "auto"
+      ? measure(column)
+      : null
+  );
+  const flexible = sized.filter(size => size === null).length;
+  const taken = sized.reduce((sum, size) => sum + (size || 0), 0);
+  const remaining = Math.max(0, width - COLUMN_GAP * (columns.length - 1) - taken);
+
+  let flexibleIndex = 0;
+  return sized.map(size => {
+    if (size !== null) {
+      return size;
+    }
+    // The cells that can't be shared equally go to the first columns
+    const share = Math.floor(remaining / flexible) + (flexibleIndex < remaining % flexible ? 1 : 0);
+    flexibleIndex++;
+    return share;
+  });
+}
+
+/**
+ * Lays columns out on a single row. Each column is aligned within its width,
+ * text that doesn't fit is truncated, and columns that exceed the row are cut.
+ */
+export function layoutColumns(columns: ILineColumn[], widths: number[], width: number): string {
+  let available = width;
+  const cells: string[] = [];
+  columns.forEach((column, index) => {
+    const columnWidth = Math.min(widths[index], available);
+    if (columnWidth > 0) {
+      cells.push(alignText(truncate(column.text, columnWidth), columnWidth, column.align, true));
+      available -= columnWidth + COLUMN_GAP;
+    }
+  });
+  return cells.join(" ".repeat(COLUMN_GAP)).replace(/ +$/, "");
+}
+
+/**
+ * Shortens text to a width, replacing the end with an ellipsis. Escape codes
+ * that follow the cut are kept, so that styles and hyperlinks are still closed.
+ */
+export function truncate(text: string, width: number): string {
+  if (textWidth(text) <= width) {
+    return text;
+  }
+
+  let result = "";
+  let used = 0;
+  let cut = false;
+  const addText = (part: string) => {
+    for (const grapheme of splitGraphemes(part)) {
+      const graphemeCells = graphemeWidth(grapheme);
+      if (!cut && used + graphemeCells <= width - 1) {
+        result += grapheme;
+        used += graphemeCells;
+      } else if (!cut) {
+        result += width > 0 ? ELLIPSIS : "";
+        cut = true;
+      }
+    }
+  };
+
+  const ar = escapeCodeRegex();
+  let last = 0;
+  let match = ar.exec(text);
+  while (match !== null) {
+    addText(text.slice(last, match.index));
+    result += match[0];
+    last = ar.lastIndex;
+    match = ar.exec(text);
+  }
+  addText(text.slice(last));
+  return result;
+}
+
+/**
+ * Splits text into rows the way a terminal wraps it when it's resized: at the
+ * last column, wherever that falls, even within a word. A wide character that
+ * doesn't fit at the end of a row is moved to the next one. Styles that are
+ * left open carry over to the next row.
+ */
+export function wrapCells(text: string, width: number): string[] {
+  const rows = [""];
+  let used = 0;
+  const addText = (part: string) => {
+    for (const grapheme of splitGraphemes(part)) {
+      const graphemeCells = graphemeWidth(grapheme);
+      if (used + graphemeCells > width && used > 0) {
+        rows.push("");
+        used = 0;
+      }
+      rows[rows.length - 1] += grapheme;
+      used += graphemeCells;
+    }
+  };
+
+  const ar = escapeCodeRegex();
+  let last = 0;
+  let match = ar.exec(text);
+  while (match !== null) {
+    addText(text.slice(last, match.index));
+    rows[rows.length - 1] += match[0];
+    last = ar.lastIndex;
+    match = ar.exec(text);
+  }
+  addText(text.slice(last));
+  return carryStyles(rows);
+}
+
+/**
+ * Pads a row to align it within a width
+ *
+ * @param fill Pads the end as well, so that the row occupies the entire width
+ */
+function alignText(text: string, width: number, align: LineAlign = "left", fill: boolean): string {
+  const space = Math.max(0, width - textWidth(text));
+  const before = align === "right" ? space : align === "center" ? Math.floor(space / 2) : 0;
+  return " ".repeat(before) + text + (fill ? " ".repeat(space - before) : "");
+}
@@ -0,0 +1,35 @@
+import { DynamicTerminal } from "./DynamicTerminal";
+
+/**
+ * A stable reference to lines that were appended to a session. Changes are
+ * sent to the worker as small PATCH messages, instead of the entire render queue.
+ */
+export class LineHandle {
+  public readonly id: string;
+
+  private terminal: DynamicTerminal;
+
+  constructor(terminal: DynamicTerminal, id: string) {
+    this.terminal = terminal;
+    this.id = id;
+  }
+
+  /** Replaces the text of the line. New lines will split it into several lines */
+  public setText(text: string): Promise<boolean> {
+    return this.terminal.patch(this.id, { text });
+  }
+
+  public setIndent(indent: number): Promise<boolean> {
+    return this.terminal.patch(this.id, { indent });
+  }
+
+  /** Turns the line into a hyperlink, or removes the link if the URL is empty */
+  public setLink(url: string): Promise<boolean> {
+    return this.terminal.patch(this.id, { link: url });
+  }
+
+  /** Removes the line from the session */
+  public remove(): Promise<boolean> {
+    return this.terminal.patch(this.id, { remove: true });
+  }
+}
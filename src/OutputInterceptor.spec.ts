@@ -0,0 +1,60 @@
+import test from "ava";
+import { PassThrough } from "stream";
+
+import { DynamicTerminal } from "./DynamicTerminal";
+import { OutputInterceptor, writeThrough } from "./OutputInterceptor";
+import { VirtualTerminal } from "./VirtualTerminal";
+
+/** A stream that keeps what reaches it */
+function sink() {
+  const stream = new PassThrough();
+  let written = "";
+  stream.on("data", data => (written += data));
+  return { read: () => written, stream };
+}
+
+test("passes on complete lines, and the rest when it's restored", t => {
+  const { stream, read } = sink();
+  const intercepted: string[] = [];
+  const interceptor = new OutputInterceptor(text => intercepted.push(text));
+  interceptor.intercept([stream]);
+
+  stream.write("one\ntw");
+  stream.write(Buffer.from("o\nthree"));
+  stream.write(new Uint8Array([33, 10]));
+  t.deepEqual(intercepted, ["one", "two", "three!"]);
+  stream.write("four");
+  t.is(read(), "", "nothing reaches the stream");
+
+  interceptor.restore();
+  t.deepEqual(intercepted, ["one", "two", "three!", "four"]);
+  stream.write("five");
+  t.is(read(), "five");
+});
+
+test("calls the write callback, and lets the session write through", async t => {
+  const { stream, read } = sink();
+  const interceptor = new OutputInterceptor(() => undefined);
+  interceptor.intercept([stream]);
+
+  await new Promise(resolve => stream.write("text\n", "utf8", resolve));
+  await new Promise(resolve => stream.write("text\n", resolve));
+  writeThrough(stream, "session");
+  t.is(read(), "session");
+  interceptor.restore();
+});
+
+test("logs above the session, which stays underneath", async t => {
+  const screen = new VirtualTerminal(20, 5);
+  const dt = new DynamicTerminal({ mode: "inline" });
+  await dt.start({ output: screen });
+  await dt.update(["Working", "  step 1"]);
+  await dt.log("first\nsecond");
+  t.deepEqual(screen.getLines(), ["first", "second", "Working", "  step 1"]);
+
+  await dt.update("Done");
+  await dt.log("third");
+  t.deepEqual(screen.getLines(), ["first", "second", "third", "Done"]);
+  await dt.stop();
+  dt.destroy();
+});
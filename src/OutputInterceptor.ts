@@ -0,0 +1,87 @@
+type WriteFunction = NodeJS.WritableStream["write"];
+type WriteCallback = (err?: Error | null) => void;
+
+// The original write function of every stream that is currently intercepted
+const originalWrites = new WeakMap<NodeJS.WritableStream, WriteFunction>();
+
+/**
+ * Writes to a stream, bypassing an OutputInterceptor that may be installed on it.
+ * Used for the output of the session itself, which must not be intercepted.
+ */
+export function writeThrough(stream: NodeJS.WritableStream, text: string): boolean {
+  const write = originalWrites.get(stream) || stream.write;
+  return write.call(stream, text);
+}
+
+/**
+ * Captures everything that is written to a set of streams, such as stdout and
+ * stderr, and passes it on one complete line at a time. This stops console.log()
+ * and friends from garbling a running session.
+ */
+export class OutputInterceptor {
+  private onText: (text: string) => void;
+  private buffers = new Map<NodeJS.WritableStream, string>(); // Unfinished lines
+
+  /**
+   * @param onText Receives intercepted text, which never ends with an unfinished line
+   */
+  constructor(onText: (text: string) => void) {
+    this.onText = onText;
+  }
+
+  /** Replaces the write function of each stream */
+  public intercept(streams: NodeJS.WritableStream[]) {
+    for (const stream of streams) {
+      if (originalWrites.has(stream)) {
+        continue;
+      }
+      originalWrites.set(stream, stream.write);
+      this.buffers.set(stream, "");
+
+      // The encoding is a string in the stream's typings, rather than a BufferEncoding
+      const write = (
+        chunk: string | Uint8Array,
+        encoding?: string | WriteCallback,
+        callback?: WriteCallback
+      ): boolean => {
+        const text =
+          typeof chunk === "string"
+            ? chunk
+            : Buffer.from(chunk.buffer, chunk.byteOffset, chunk.byteLength).toString(
+                typeof encoding === "string" ? (encoding as BufferEncoding) : "utf8"
+              );
+        this.push(stream, text);
+
+        const done = typeof encoding === "function" ? encoding : callback;
+        if (typeof done === "function") {
+          process.nextTick(done);
+        }
+        return true;
+      };
+      stream.write = write;
+    }
+  }
+
+  /** Restores the original write functions, passing on any unfinished lines */
+  public restore() {
+    for (const [stream, buffer] of this.buffers) {
+      stream.write = originalWrites.get(stream);
+      originalWrites.delete(stream);
+      if (buffer !== "") {
+        this.onText(buffer);
+      }
+    }
+    this.buffers.clear();
+  }
+
+  private push(stream: NodeJS.WritableStream, text: string) {
+    const buffer = this.buffers.get(stream) + text;
+    const end = buffer.lastIndexOf("\n");
+    if (end === -1) {
+      this.buffers.set(stream, buffer);
+      return;
+    }
+    this.buffers.set(stream, buffer.slice(end + 1));
+    this.onText(buffer.slice(0, end));
+  }
+}
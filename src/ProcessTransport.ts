@@ -0,0 +1,39 @@
+import cluster from "cluster";
+import { EventEmitter } from "events";
+import path from "path";
+
+import { Command } from "./Protocol";
+import { ITransport } from "./Transport";
+
+/** Hosts the thread in a child process forked through the cluster module */
+export class ProcessTransport extends EventEmitter implements ITransport {
+  public readonly remote = true;
+  public readonly sharesStdio = true;
+
+  private worker: cluster.Worker;
+
+  constructor() {
+    super();
+    const clusterSettings = { ...cluster.settings }; // create a copy
+    cluster.setupMaster({
+      exec: path.join(__dirname, "/ProcessWorker.js")
+    });
+    this.worker = cluster.fork();
+    cluster.setupMaster(clusterSettings); // revert settings
+    this.worker.setMaxListeners(32); // Fast updates may exceed the default limit
+    this.worker.on("message", msg => this.emit("message", msg));
+    this.worker.once("disconnect", () => this.emit("disconnect"));
+  }
+
+  public isConnected(): boolean {
+    return this.worker.isConnected();
+  }
+
+  public send(message: Command, callback?: (err: Error) => void) {
+    this.worker.send(message, callback);
+  }
+
+  public destroy() {
+    this.worker.send({ cmd: "DESTROY" });
+  }
+}
@@ -0,0 +1,36 @@
+import _debug from "debug";
+import os from "os";
+
+import { DynamicTerminalThread, handleMessage } from "./DynamicTerminalThread";
+
+const defaultDebug = _debug("DTTCommand");
+
+/**
+ * The entry point of the child process that is forked by the "process" transport.
+ * Hosts a DynamicTerminalThread and relays the IPC channel to it.
+ */
+
+// Set a higher priority to keep up with updates
+try {
+  os.setPriority(os.constants.priority.PRIORITY_HIGH);
+} catch (err) {
+  /* */
+}
+
+const worker = new DynamicTerminalThread(message => process.send(message));
+
+process.on("message", msg => {
+  if (typeof msg === "object" && msg.cmd === "DESTROY") {
+    defaultDebug("Destroying...");
+    // The exit handler cleans up, then the signal ends the process
+    process.kill(process.pid, "SIGTERM");
+    return;
+  }
+  handleMessage(worker, msg, message => process.send(message));
+});
+
+// The parent process has died without destroying the worker, the session can't be continued
+process.once("disconnect", () => {
+  defaultDebug("Parent process disconnected, cleaning up...");
+  process.kill(process.pid, "SIGTERM");
+});
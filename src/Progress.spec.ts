@@ -0,0 +1,63 @@
+import test from "ava";
+
+import { DynamicTerminal } from "./DynamicTerminal";
+import { formatProgress, formatStaticProgress, IProgress } from "./Progress";
+import { VirtualTerminal } from "./VirtualTerminal";
+import { textWidth } from "./Width";
+
+// A progress that has just started, its rate and ETA are unknown
+const state = { startTime: Date.now(), startValue: 0 };
+
+function format(progress: Partial<IProgress>, available: number): string {
+  return formatProgress({ current: 1, total: 4, ...progress }, state, available);
+}
+
+test("replaces the tokens of the format", t => {
+  t.is(format({ format: ":current/:total :percent" }, 40), "1/4 25%");
+  t.is(format({ current: 9, format: ":current/:total" }, 40), "4/4", "current is clamped");
+});
+
+test("fills the available columns with the bar", t => {
+  t.is(format({ format: ":bar :percent" }, 16), "███░░░░░░░░░ 25%");
+  t.is(format({ format: ":bar :percent", width: 4 }, 40), "█░░░ 25%");
+  t.is(textWidth(format({}, 50)), 50);
+});
+
+test("measures the text around the bar in terminal cells", t => {
+  const text = format({ format: "中文 :bar" }, 20);
+  t.is(textWidth(text), 20);
+  t.is(text, "中文 ████" + "░".repeat(11));
+});
+
+test("shrinks the bar, then leaves it out when it doesn't fit", t => {
+  t.is(format({ format: ":bar :percent", width: 20 }, 14), "███░░░░░░░ 25%");
+  t.is(format({ format: ":bar :percent" }, 13), "25%");
+  t.is(format({ format: ":percent :bar", width: 20 }, 8), "25%");
+  t.is(format({ format: ":bar :percent", width: 4 }, 7), "25%");
+});
+
+test("formats the progress of static output in steps of 10%", t => {
+  t.is(formatStaticProgress({ current: 1, total: 4 }), "20%");
+  t.is(formatStaticProgress({ current: 5, total: 4 }), "100%");
+  t.is(formatStaticProgress({ current: 1, total: 0 }), "0%");
+});
+
+test("renders the progress in place of its placeholder, or at the end of the line", async t => {
+  const screen = new VirtualTerminal(30, 5);
+  const dt = new DynamicTerminal({ mode: "inline" });
+  await dt.start({ output: screen });
+  await dt.update([
+    {
+      id: "a",
+      progress: { current: 0, format: ":current/:total", total: 4 },
+      text: `Copying ${DynamicTerminal.PROGRESS} files`
+    },
+    { progress: { current: 2, format: ":bar :percent", total: 4 }, text: "Loading" }
+  ]);
+  t.deepEqual(screen.getLines(), ["Copying 0/4 files", "Loading █████████░░░░░░░░░ 50%"]);
+
+  await dt.progress("a", 3);
+  t.is(screen.getLines()[0], "Copying 3/4 files");
+  await dt.stop();
+  dt.destroy();
+});
@@ -0,0 +1,103 @@
+import { textWidth } from "./Width";
+
+/**
+ * The progress of a line. It is rendered as a bar that is sized to the
+ * terminal width, along with a percentage, the rate and an estimated time.
+ */
+export interface IProgress {
+  current: number;
+  total: number;
+  /** The width of the bar in columns. By default, the bar fills the rest of the line */
+  width?: number;
+  /**
+   * The format of the progress, with the tokens :bar, :percent, :current,
+   * :total, :rate (per second) and :eta. Defaults to DEFAULT_PROGRESS_FORMAT.
+   */
+  format?: string;
+}
+
+/** Used to calculate the rate and ETA of a progress */
+export interface IProgressState {
+  startTime: number;
+  startValue: number;
+}
+
+export const DEFAULT_PROGRESS_FORMAT = ":bar :percent | :rate/s | ETA :eta";
+
+const BAR_COMPLETE = "█";
+const BAR_INCOMPLETE = "░";
+const MIN_BAR_WIDTH = 10;
+
+/**
+ * Formats a progress for output that can't be redrawn, such as a CI log. The
+ * percentage changes in steps of 10%, so that the line isn't printed on every tick.
+ */
+export function formatStaticProgress(progress: IProgress): string {
+  const total = Math.max(0, progress.total || 0);
+  const current = Math.min(Math.max(0, progress.current || 0), total);
+  return `${total > 0 ? Math.floor((current / total) * 10) * 10 : 0}%`;
+}
+
+/**
+ * Formats a progress, replacing each token of its format string.
+ *
+ * @param available The number of columns the progress may occupy. The bar is
+ * shrunk to fit, down to MIN_BAR_WIDTH, and left out if it still doesn't fit.
+ */
+export function formatProgress(
+  progress: IProgress,
+  state: IProgressState,
+  available: number
+): string {
+  const total = Math.max(0, progress.total || 0);
+  const current = Math.min(Math.max(0, progress.current || 0), total);
+  const ratio = total > 0 ? current / total : 0;
+
+  const elapsed = (Date.now() - state.startTime) / 1000;
+  const rate = elapsed > 0 ? (current - state.startValue) / elapsed : 0;
+  const eta = rate > 0 ? (total - current) / rate : NaN;
+
+  const text = (progress.format || DEFAULT_PROGRESS_FORMAT)
+    .replace(":percent", `${Math.floor(ratio * 100)}%`)
+    .replace(":current", current.toString())
+    .replace(":total", total.toString())
+    .replace(":rate", formatNumber(rate))
+    .replace(":eta", current >= total ? "0s" : formatDuration(eta));
+
+  if (text.indexOf(":bar") === -1) {
+    return text;
+  }
+
+  const fits = available - (textWidth(text) - ":bar".length);
+  const wanted = progress.width > 0 ? Math.floor(progress.width) : fits;
+  const width = Math.min(wanted, fits);
+  if (width < (progress.width > 0 ? Math.min(wanted, MIN_BAR_WIDTH) : MIN_BAR_WIDTH)) {
+    // The space next to the bar goes with it
+    return text.replace(/:bar | ?:bar/, "");
+  }
+  const complete = Math.round(width * ratio);
+  return text.replace(
+    ":bar",
+    BAR_COMPLETE.repeat(complete) + BAR_INCOMPLETE.repeat(width - complete)
+  );
+}
+
+/** Formats a number with at most one decimal */
+function formatNumber(value: number): string {
+  return value >= 100 ? Math.round(value).toString() : (Math.round(value * 10) / 10).toString();
+}
+
+/** Formats seconds as a short duration, such as "1h2m", "3m4s" or "5s" */
+function formatDuration(seconds: number): string {
+  if (!isFinite(seconds)) {
+    return "?";
+  }
+  const s = Math.ceil(seconds);
+  if (s >= 3600) {
+    return `${Math.floor(s / 3600)}h${Math.floor((s % 3600) / 60)}m`;
+  }
+  if (s >= 60) {
+    return `${Math.floor(s / 60)}m${s % 60}s`;
+  }
+  return `${s}s`;
+}
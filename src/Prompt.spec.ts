@@ -0,0 +1,80 @@
+import test from "ava";
+import { PassThrough } from "stream";
+
+import { DynamicTerminal } from "./DynamicTerminal";
+import { Prompt } from "./Prompt";
+import { VirtualTerminal } from "./VirtualTerminal";
+
+async function session() {
+  const input = new PassThrough();
+  const screen = new VirtualTerminal(40, 10);
+  const dt = new DynamicTerminal({ mode: "inline" });
+  await dt.start({ input, output: screen });
+  await dt.update("Working");
+  return { dt, input, prompt: new Prompt(dt), screen };
+}
+
+/** Waits for the keys that were typed to be read, and for the question to render */
+async function settle(dt: DynamicTerminal) {
+  await new Promise(resolve => setImmediate(resolve));
+  await dt.flush();
+}
+
+/** Types each sequence as a key, and lets the question render in between */
+async function type(dt: DynamicTerminal, input: PassThrough, ...sequences: string[]) {
+  for (const sequence of sequences) {
+    input.write(sequence);
+    await settle(dt);
+  }
+}
+
+test("asks a question under the session, and logs its answer above it", async t => {
+  const { dt, input, prompt, screen } = await session();
+  const answer = prompt.confirm("Deploy?");
+  await settle(dt);
+  t.deepEqual(screen.getLines(), ["Working", "? Deploy? (y/N)"]);
+
+  await type(dt, input, "y");
+  t.true(await answer);
+  await dt.flush();
+  t.deepEqual(screen.getLines(), [`${DynamicTerminal.TICK_RAW} Deploy? yes`, "Working"]);
+  dt.destroy();
+});
+
+test("selects a choice with the arrow keys", async t => {
+  const { dt, input, prompt, screen } = await session();
+  const answer = prompt.select("Region", [
+    "eu-west-1",
+    { description: "Virginia", title: "us-east-1", value: "us" }
+  ]);
+  await settle(dt);
+  await type(dt, input, "\x1B[B");
+  t.deepEqual(screen.getLines().slice(2), ["  eu-west-1", "❯ us-east-1 - Virginia"]);
+  await type(dt, input, "\x1B[B", "\x1B[B", "\r");
+  t.is(await answer, "us");
+  dt.destroy();
+});
+
+test("edits the text of an answer, and checks it", async t => {
+  const { dt, input, prompt, screen } = await session();
+  const answer = prompt.text("Name", {
+    validate: value => value.length > 1 || "Too short"
+  });
+  await settle(dt);
+  await type(dt, input, "a", "\r");
+  t.is(screen.getLines()[2], `${DynamicTerminal.CROSS_RAW} Too short`);
+  await type(dt, input, "c", "\x1B[D", "b", "\x7F", "\x1B[D", "b", "\r");
+  t.is(await answer, "bac");
+  dt.destroy();
+});
+
+test("rejects the questions that are left when the session stops", async t => {
+  const { dt, prompt } = await session();
+  const answer = prompt.confirm("Deploy?");
+  await settle(dt);
+  await dt.stop();
+  await t.throwsAsync(answer, {
+    message: "The session was stopped before the question was answered"
+  });
+  dt.destroy();
+});
@@ -0,0 +1,226 @@
+import chalk from "chalk";
+import figures from "figures";
+
+import { DynamicTerminal } from "./DynamicTerminal";
+import { IKey } from "./Keyboard";
+import { splitGraphemes } from "./Width";
+
+/** A choice of a select prompt */
+export interface IChoice<T> {
+  title: string;
+  value: T;
+  /** Shown next to the choice while it's highlighted */
+  description?: string;
+}
+
+export interface ITextPromptOptions {
+  /** The answer if nothing is typed */
+  default?: string;
+  /** Replaces each typed character when displayed, such as "*" for passwords */
+  mask?: string;
+  /** Returns an error message if the answer is invalid, which is shown until it's corrected */
+  validate?: (value: string) => string | true;
+}
+
+/** The state of a question, which is re-rendered after every key */
+interface IWidget<T> {
+  message: string;
+  /** Renders the question, which may span several lines */
+  render(): string;
+  /** Handles a key, and returns the answer once the question has been answered */
+  keypress(key: IKey): { value: T; summary: string } | null;
+}
+
+/**
+ * Asks questions in the middle of a session, built on top of DynamicTerminal.
+ * The question is rendered as lines of the session and answered with the
+ * keyboard, the rest of the session keeps rendering meanwhile. Once answered,
+ * the question is replaced by a summary that is logged above the session.
+ *
+ * ```javascript
+ * const prompt = new Prompt(dt);
+ * const deploy = await prompt.confirm("Deploy to production?");
+ * const region = await prompt.select("Region", ["eu-west-1", "us-east-1"]);
+ * const name = await prompt.text("Release name", { default: "v1.0.0" });
+ * ```
+ */
+export class Prompt {
+  private terminal: DynamicTerminal;
+
+  /**
+   * @param terminal A DynamicTerminal with a started session
+   */
+  constructor(terminal: DynamicTerminal) {
+    this.terminal = terminal;
+  }
+
+  /** Asks a yes or no question, answered with "y", "n", or enter for the default */
+  public confirm(message: string, defaultValue: boolean = false): Promise<boolean> {
+    return this.ask<boolean>({
+      keypress: key => {
+        const value =
+          key.name === "y" ? true : key.name === "n" ? false : isSubmit(key) ? defaultValue : null;
+        return value === null ? null : { summary: value ? "yes" : "no", value };
+      },
+      message,
+      render: () =>
+        `${question(message)} ${chalk.gray(defaultValue ? "(Y/n)" : "(y/N)")} ${chalk.inverse(" ")}`
+    });
+  }
+
+  /**
+   * Asks to pick one of several choices with the arrow keys. Strings are both
+   * the title and the value of their choice.
+   *
+   * @param initial The index of the choice that is highlighted first
+   */
+  public select(
+    message: string,
+    choices: Array<string | IChoice<string>>,
+    initial?: number
+  ): Promise<string>;
+  public select<T>(message: string, choices: Array<IChoice<T>>, initial?: number): Promise<T>;
+  public select<T>(
+    message: string,
+    choices: Array<string | IChoice<T | string>>,
+    initial: number = 0
+  ): Promise<T | string> {
+    const items = choices.map(choice =>
+      typeof choice === "string" ? { title: choice, value: choice } : choice
+    );
+    if (items.length === 0) {
+      return Promise.reject(new Error("A select prompt needs at least one choice"));
+    }
+
+    let selected = Math.min(Math.max(0, initial), items.length - 1);
+    return this.ask<T | string>({
+      keypress: key => {
+        if (key.name === "up" || key.name === "k" || (key.name === "tab" && key.shift)) {
+          selected = (selected + items.length - 1) % items.length;
+        } else if (key.name === "down" || key.name === "j" || key.name === "tab") {
+          selected = (selected + 1) % items.length;
+        } else if (isSubmit(key)) {
+          return { summary: items[selected].title, value: items[selected].value };
+        }
+        return null;
+      },
+      message,
+      render: () =>
+        [`${question(message)} ${chalk.gray("(use arrow keys)")}`]
+          .concat(
+            items.map((item, index) =>
+              index === selected
+                ? chalk.cyan(`${figures.pointer} ${item.title}`) +
+                  (item.description ? chalk.gray(` - ${item.description}`) : "")
+                : `  ${item.title}`
+            )
+          )
+          .join("\n")
+    });
+  }
+
+  /** Asks for a line of text, which can be edited with the arrow, home, end and delete keys */
+  public text(message: string, options: ITextPromptOptions = {}): Promise<string> {
+    let value: string[] = []; // The graphemes that were typed
+    let cursor = 0;
+    let error: string = null;
+
+    return this.ask<string>({
+      keypress: key => {
+        error = null;
+        if (isSubmit(key)) {
+          const answer = value.join("") || options.default || "";
+          const valid = options.validate ? options.validate(answer) : true;
+          if (valid !== true) {
+            error = valid || "Invalid answer";
+            return null;
+          }
+          const summary =
+            typeof options.mask === "string" ? options.mask.repeat(value.length) : answer;
+          return { summary, value: answer };
+        } else if (key.name === "backspace") {
+          if (cursor > 0) {
+            value.splice(cursor - 1, 1);
+            cursor--;
+          }
+        } else if (key.name === "delete") {
+          value.splice(cursor, 1);
+        } else if (key.name === "left") {
+          cursor = Math.max(0, cursor - 1);
+        } else if (key.name === "right") {
+          cursor = Math.min(value.length, cursor + 1);
+        } else if (key.name === "home" || (key.ctrl && key.name === "a")) {
+          cursor = 0;
+        } else if (key.name === "end" || (key.ctrl && key.name === "e")) {
+          cursor = value.length;
+        } else if (key.ctrl && key.name === "u") {
+          value = value.slice(cursor);
+          cursor = 0;
+        } else if (isPrintable(key)) {
+          const graphemes = splitGraphemes(key.sequence);
+          value.splice(cursor, 0, ...graphemes);
+          cursor += graphemes.length;
+        }
+        return null;
+      },
+      message,
+      render: () => {
+        const shown = typeof options.mask === "string" ? value.map(() => options.mask) : value;
+        const placeholder =
+          value.length === 0 && options.default ? chalk.gray(`(${options.default}) `) : "";
+        const text =
+          shown.slice(0, cursor).join("") +
+          chalk.inverse(shown[cursor] || " ") +
+          shown.slice(cursor + 1).join("");
+        const feedback = error ? "\n" + chalk.red(`${figures.cross} ${error}`) : "";
+        return `${question(message)} ${placeholder}${text}${feedback}`;
+      }
+    });
+  }
+
+  /**
+   * Displays a question, and resolves with its answer once the summary has been
+   * logged. Rejects if the session is stopped first, or if the question can't
+   * be displayed.
+   */
+  private async ask<T>(widget: IWidget<T>): Promise<T> {
+    const [handle] = await this.terminal.append(widget.render());
+
+    return new Promise<T>((resolve, reject) => {
+      const stop = this.terminal.onKeypress(
+        key => {
+          const answer = widget.keypress(key);
+          if (!answer) {
+            handle.setText(widget.render()).catch(err => {
+              stop();
+              reject(err);
+            });
+            return;
+          }
+          stop();
+          const summary = `${DynamicTerminal.TICK} ${chalk.bold(widget.message)} ${chalk.cyan(
+            answer.summary
+          )}`;
+          Promise.all([handle.remove(), this.terminal.log(summary)]).then(
+            () => resolve(answer.value),
+            reject
+          );
+        },
+        () => reject(new Error("The session was stopped before the question was answered"))
+      );
+    });
+  }
+}
+
+function question(message: string): string {
+  return `${chalk.cyan("?")} ${chalk.bold(message)}`;
+}
+
+/** Enter is read as "return" from a TTY, and as "enter" from a line feed */
+function isSubmit(key: IKey): boolean {
+  return key.name === "return" || key.name === "enter";
+}
+
+function isPrintable(key: IKey): boolean {
+  return !key.ctrl && !key.meta && key.sequence !== "" && !/[\x00-\x1F\x7F]/.test(key.sequence);
+}
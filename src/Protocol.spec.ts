@@ -0,0 +1,169 @@
+import test from "ava";
+
+import { DynamicTerminal } from "./DynamicTerminal";
+import {
+  Command,
+  CommandName,
+  ICommands,
+  IReplies,
+  PROTOCOL_VERSION,
+  WorkerMessage
+} from "./Protocol";
+import { TerminalError } from "./TerminalError";
+import { createTransport, ITransport, TransportMode } from "./Transport";
+
+const MODES: TransportMode[] = ["inline", "thread", "process"];
+
+// The data of every command, the output is forwarded so that nothing reaches the test's stdout
+const COMMANDS: { [K in CommandName]: ICommands[K] } = {
+  APPEND: { text: "third" },
+  DESTROY: {},
+  FLUSH: {},
+  LOG: { text: "logged" },
+  PATCH: { changes: { text: "patched" }, id: "task" },
+  PROGRESS: { current: 1, id: "task", total: 2 },
+  RENDER: { force: true },
+  RENDER_QUEUE: {},
+  RESIZE: { columns: 30, rows: 8 },
+  START: {
+    forwarded: { columns: 40, isTTY: true, rows: 10 },
+    options: {},
+    version: PROTOCOL_VERSION
+  },
+  STOP: { commit: true },
+  UPDATE: {
+    text: [{ text: "first" }, { id: "task", progress: { current: 0, total: 2 }, text: "second" }]
+  }
+};
+
+// The order in which the commands are sent, as they would be during a session
+const SESSION: CommandName[] = [
+  "START",
+  "UPDATE",
+  "APPEND",
+  "PATCH",
+  "PROGRESS",
+  "FLUSH",
+  "RESIZE",
+  "LOG",
+  "RENDER",
+  "RENDER_QUEUE",
+  "STOP",
+  "DESTROY"
+];
+
+const STATUSES: { [K in Exclude<CommandName, "DESTROY">]: IReplies[K]["status"] } = {
+  APPEND: "appended",
+  FLUSH: "flushed",
+  LOG: "logged",
+  PATCH: "patched",
+  PROGRESS: "progressed",
+  RENDER: "rendered",
+  RENDER_QUEUE: "renderQueue",
+  RESIZE: "resized",
+  START: "started",
+  STOP: "stopped",
+  UPDATE: "updated"
+};
+
+/** Sends a command, and resolves with the reply that has the same uuid */
+function request(transport: ITransport, command: Command): Promise<WorkerMessage> {
+  return new Promise(resolve => {
+    const onMessage = (message: WorkerMessage) => {
+      if (message.status !== "output" && message.uuid === command.uuid) {
+        transport.removeListener("message", onMessage);
+        resolve(message);
+      }
+    };
+    transport.on("message", onMessage);
+    transport.send(command);
+  });
+}
+
+/** Sends a command by name with its data from COMMANDS, unless other data is given */
+function send<K extends CommandName>(
+  transport: ITransport,
+  cmd: K,
+  data: ICommands[K] = COMMANDS[cmd]
+): Promise<WorkerMessage> {
+  const command = { ...data, cmd, uuid: `${cmd}-${Math.random()}` };
+  return request(transport, command as Command);
+}
+
+/** Resolves once the transport is disconnected, the worker is destroyed */
+function disconnected(transport: ITransport): Promise<void> {
+  return new Promise(resolve => transport.once("disconnect", () => resolve()));
+}
+
+for (const mode of MODES) {
+  test(`${mode}: replies to every command`, async t => {
+    const transport = createTransport(mode);
+    for (const cmd of SESSION) {
+      if (cmd === "DESTROY") {
+        const destroyed = disconnected(transport);
+        transport.send({ cmd, uuid: "destroy" });
+        await destroyed;
+        t.false(transport.isConnected());
+        continue;
+      }
+
+      const reply = await send(transport, cmd);
+      t.is(reply.status, STATUSES[cmd], cmd);
+      if (reply.status === "started") {
+        t.is(typeof reply.restore, "string");
+      } else if (reply.status === "stopped") {
+        t.true(reply.ended);
+      } else if (reply.status === "renderQueue") {
+        t.deepEqual(reply.data.map(line => line.text), ["first", "patched", "third"]);
+        t.deepEqual(reply.data[1].progress, { current: 1, total: 2 });
+      }
+    }
+  });
+
+  test(`${mode}: replies with an error code when a command fails`, async t => {
+    const transport = createTransport(mode);
+    const code = (reply: WorkerMessage) => (reply.status === "error" ? reply.error.code : null);
+
+    t.is(
+      code(await send(transport, "START", { ...COMMANDS.START, version: 0 })),
+      "ProtocolMismatch"
+    );
+    t.is(code(await send(transport, "START")), null);
+
+    const unknown: object = { cmd: "UNKNOWN", uuid: "unknown" };
+    t.is(code(await request(transport, unknown as Command)), "InvalidCommand");
+    t.is(code(await send(transport, "PATCH", { changes: {}, id: "missing" })), "WorkerError");
+    t.is(code(await send(transport, "UPDATE")), null, "the thread keeps working after an error");
+
+    // Lines that can't be rendered are rejected, without changing the render queue
+    t.is(
+      code(await send(transport, "UPDATE", { text: { indent: -1, text: "x" } })),
+      "InvalidArgument"
+    );
+    t.is(
+      code(await send(transport, "APPEND", { text: [{ columns: [{ text: "a", width: NaN }] }] })),
+      "InvalidArgument"
+    );
+    t.is(
+      code(await send(transport, "PATCH", { changes: { indent: 1.5 }, id: "task" })),
+      "InvalidArgument"
+    );
+    const queue = await send(transport, "RENDER_QUEUE");
+    t.deepEqual(queue.status === "renderQueue" && queue.data.map(line => line.text), [
+      "first",
+      "second"
+    ]);
+
+    const destroyed = disconnected(transport);
+    transport.destroy();
+    await destroyed;
+  });
+
+  test(`${mode}: rejects with a TerminalError once the worker is destroyed`, async t => {
+    const dt = new DynamicTerminal({ mode });
+    dt.destroy();
+    const error = await t.throwsAsync<TerminalError>(dt.update("text"));
+    t.true(error instanceof TerminalError);
+    t.is(error.code, "WorkerNotStarted");
+  });
+}
@@ -0,0 +1,219 @@
+import {
+  IForwardedOutput,
+  ILine,
+  ILinePatch,
+  IOptions,
+  IRegion,
+  ITerminalSize
+} from "./DynamicTerminalThread";
+import { TerminalErrorCode } from "./TerminalError";
+
+/**
+ * The version of the messages below. Separate copies of the package may share
+ * a worker through the Compositor, a worker only starts sessions for
+ * controllers that speak the same version.
+ */
+export const PROTOCOL_VERSION = 1;
+
+/** The commands that the DynamicTerminal controller sends to its worker, with their data */
+export interface ICommands {
+  START: {
+    options: IOptions;
+    forwarded?: IForwardedOutput;
+    size?: ITerminalSize;
+    /** The codes of the spinnerColour option, which a remote worker can't receive as a function */
+    spinnerCodes?: [string, string];
+    version: number;
+  };
+  STOP: { commit: boolean };
+  UPDATE: { text: string | ILine | string[] | ILine[] };
+  APPEND: { text: string | ILine | string[] | ILine[] };
+  PATCH: { id: string; changes: ILinePatch };
+  PROGRESS: { id: string; current: number; total?: number };
+  FLUSH: {};
+  RESIZE: { columns: number; rows: number };
+  LOG: { text: string };
+  RENDER: { force: boolean };
+  RENDER_QUEUE: {};
+  /** Handled by the transport, the worker exits without replying */
+  DESTROY: {};
+}
+
+/** The reply to each command once it has been executed */
+export interface IReplies {
+  START: { status: "started"; restore: string };
+  /** Ended is false if other regions keep the session going */
+  STOP: { status: "stopped"; ended: boolean };
+  UPDATE: { status: "updated" };
+  APPEND: { status: "appended" };
+  PATCH: { status: "patched" };
+  PROGRESS: { status: "progressed" };
+  FLUSH: { status: "flushed" };
+  RESIZE: { status: "resized" };
+  LOG: { status: "logged" };
+  RENDER: { status: "rendered" };
+  RENDER_QUEUE: { status: "renderQueue"; data: ILine[] };
+  DESTROY: never;
+}
+
+export type CommandName = keyof ICommands;
+
+/** A command as it's sent to the worker, tagged to match its reply */
+export type Command<K extends CommandName = CommandName> = {
+  [N in K]: ICommands[N] & { cmd: N; uuid?: string; region?: IRegion };
+}[K];
+
+export type Reply<K extends CommandName = CommandName> = {
+  [N in K]: IReplies[N] & { uuid: string };
+}[K];
+
+/** Replaces the reply of a command that failed */
+export interface IErrorReply {
+  status: "error";
+  uuid: string;
+  error: { code: TerminalErrorCode; message: string };
+}
+
+/** Output of the worker that the controller writes to a stream of its own */
+export interface IOutputMessage {
+  status: "output";
+  data: string;
+}
+
+/** Any message that the worker sends to the controller */
+export type WorkerMessage = Reply | IErrorReply | IOutputMessage;
+
+const ALIGNS = ["left", "center", "right"];
+const WRAPS = ["word", "hard", "truncate"];
+
+/**
+ * Returns why the text of an UPDATE or APPEND command can't be rendered, or
+ * null if it can. Lines are checked when the command arrives, so that a line
+ * which the renderer can't handle doesn't fail every frame that follows.
+ */
+export function checkLines(text: unknown): string {
+  const lines: unknown[] = Array.isArray(text) ? text : [text];
+  for (let index = 0; index < lines.length; index++) {
+    const problem = typeof lines[index] === "string" ? null : checkLine(lines[index]);
+    if (problem) {
+      return `Line ${index + 1}: ${problem}`;
+    }
+  }
+  return null;
+}
+
+/** Returns why the changes of a PATCH command can't be applied, or null if they can */
+export function checkPatch(changes: unknown): string {
+  if (!isObject(changes)) {
+    return "the changes must be an object";
+  }
+  return (
+    checkType(changes, "text", "string") ||
+    checkType(changes, "link", "string") ||
+    checkIndent(changes.indent)
+  );
+}
+
+function checkLine(line: unknown): string {
+  if (!isObject(line)) {
+    return "a line must be a string or an object";
+  }
+  return (
+    checkType(line, "text", "string") ||
+    checkType(line, "id", "string") ||
+    checkType(line, "link", "string") ||
+    checkType(line, "status", "string") ||
+    checkIndent(line.indent) ||
+    checkOneOf(line, "align", ALIGNS) ||
+    checkOneOf(line, "wrap", WRAPS) ||
+    checkSpinner(line.spinner) ||
+    checkProgress(line.progress) ||
+    checkColumns(line.columns)
+  );
+}
+
+function checkIndent(indent: unknown): string {
+  if (
+    indent !== undefined &&
+    !(typeof indent === "number" && Number.isInteger(indent) && indent >= 0)
+  ) {
+    return `indent must be a whole number of columns, not ${indent}`;
+  }
+  return null;
+}
+
+function checkSpinner(spinner: unknown): string {
+  if (spinner === undefined || typeof spinner === "string") {
+    return null;
+  }
+  if (!isObject(spinner)) {
+    return "spinner must be a name or an object";
+  }
+  if (Array.isArray(spinner.style) && spinner.style.some(frame => typeof frame !== "string")) {
+    return "the frames of a spinner must be strings";
+  }
+  return (
+    (Array.isArray(spinner.style) ? null : checkType(spinner, "style", "string")) ||
+    checkType(spinner, "interval", "number") ||
+    checkType(spinner, "colour", "string")
+  );
+}
+
+function checkProgress(progress: unknown): string {
+  if (progress === undefined) {
+    return null;
+  }
+  if (!isObject(progress)) {
+    return "progress must be an object";
+  }
+  if (!isFinite(progress.current as number) || !isFinite(progress.total as number)) {
+    return "the current and total of a progress must be numbers";
+  }
+  return checkType(progress, "width", "number") || checkType(progress, "format", "string");
+}
+
+function checkColumns(columns: unknown): string {
+  if (columns === undefined) {
+    return null;
+  }
+  if (!Array.isArray(columns)) {
+    return "columns must be an array";
+  }
+  for (const column of columns) {
+    if (!isObject(column) || typeof column.text !== "string") {
+      return "each column must be an object with a text";
+    }
+    const problem =
+      (column.width === "auto" ? null : checkType(column, "width", "number")) ||
+      checkOneOf(column, "align", ALIGNS);
+    if (problem) {
+      return problem;
+    }
+  }
+  return null;
+}
+
+/** Checks the type of an optional property */
+function checkType(object: { [key: string]: unknown }, key: string, type: string): string {
+  const value = object[key];
+  if (
+    value !== undefined &&
+    (typeof value !== type || (type === "number" && !isFinite(value as number)))
+  ) {
+    return `${key} must be a ${type}, not ${JSON.stringify(value)}`;
+  }
+  return null;
+}
+
+/** Checks that an optional property is one of the allowed values */
+function checkOneOf(object: { [key: string]: unknown }, key: string, values: string[]): string {
+  const value = object[key];
+  if (value !== undefined && values.indexOf(value as string) === -1) {
+    return `${key} must be one of ${values.join(", ")}, not ${JSON.stringify(value)}`;
+  }
+  return null;
+}
+
+function isObject(value: unknown): value is { [key: string]: unknown } {
+  return typeof value === "object" && value !== null;
+}
@@ -0,0 +1,48 @@
+import { EventEmitter } from "events";
+
+import { IRegion } from "./DynamicTerminalThread";
+import { Command } from "./Protocol";
+import { ITransport } from "./Transport";
+
+/** A connection to the compositor's worker, which addresses every message to a region */
+export class RegionTransport extends EventEmitter implements ITransport {
+  public readonly remote: boolean;
+  public readonly sharesStdio: boolean;
+
+  private transport: ITransport;
+  private region: IRegion;
+  private onDestroy: () => void;
+
+  constructor(transport: ITransport, region: IRegion, onDestroy: () => void) {
+    super();
+    this.transport = transport;
+    this.region = region;
+    this.onDestroy = onDestroy;
+    this.remote = transport.remote;
+    this.sharesStdio = transport.sharesStdio;
+  }
+
+  public isConnected(): boolean {
+    return this.transport !== null && this.transport.isConnected();
+  }
+
+  public send(message: Command, callback?: (err: Error) => void) {
+    if (!this.transport) {
+      if (callback) {
+        callback(new Error("The region has been destroyed"));
+      }
+      return;
+    }
+    this.transport.send({ ...message, region: this.region }, callback);
+  }
+
+  /** Closes the region, the shared worker is only destroyed with the last region */
+  public destroy() {
+    if (this.transport) {
+      this.transport.send({ cmd: "STOP", commit: true, region: this.region });
+      this.transport = null;
+      this.onDestroy();
+      this.emit("disconnect");
+    }
+  }
+}
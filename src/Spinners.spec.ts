@@ -0,0 +1,66 @@
+import test from "ava";
+
+import { DynamicTerminal } from "./DynamicTerminal";
+import {
+  getSpinnerColour,
+  getSpinnerFrame,
+  getTimerInterval,
+  resolveSpinner,
+  SPINNERS
+} from "./Spinners";
+import { VirtualTerminal } from "./VirtualTerminal";
+
+const DEFAULT = SPINNERS.elegant;
+
+test("resolves named and custom spinners", t => {
+  t.deepEqual(resolveSpinner("dots", DEFAULT), SPINNERS.dots);
+  t.deepEqual(resolveSpinner({ style: "line", interval: 50 }, DEFAULT), {
+    frames: SPINNERS.line.frames,
+    interval: 50
+  });
+  t.deepEqual(resolveSpinner({ style: ["a", "b"] }, DEFAULT), {
+    frames: ["a", "b"],
+    interval: DEFAULT.interval
+  });
+});
+
+test("falls back to the default spinner", t => {
+  t.deepEqual(resolveSpinner(undefined, DEFAULT), DEFAULT);
+  t.deepEqual(resolveSpinner("unknown", DEFAULT), DEFAULT);
+  t.deepEqual(resolveSpinner({ style: [], interval: -1 }, DEFAULT), DEFAULT);
+});
+
+test("selects the frame for the elapsed time", t => {
+  const style = { frames: ["a", "b", "c"], interval: 100 };
+  t.is(getSpinnerFrame(style, 0), "a");
+  t.is(getSpinnerFrame(style, 199), "b");
+  t.is(getSpinnerFrame(style, 300), "a");
+});
+
+test("applies chalk colours, and the fallback for unknown ones", t => {
+  const fallback = (text: string) => `[${text}]`;
+  t.not(getSpinnerColour("magenta", fallback), fallback);
+  t.not(getSpinnerColour("#FF8800", fallback), fallback);
+  t.not(getSpinnerColour("orange", fallback), fallback);
+  t.is(getSpinnerColour("grey50", fallback), fallback);
+});
+
+test("drives every spinner with one timer", t => {
+  t.is(getTimerInterval([80, 120]), 40);
+  t.is(getTimerInterval([7, 11], 16), 16);
+  t.is(getTimerInterval([]), 0);
+});
+
+test("renders the spinner of each line", async t => {
+  const screen = new VirtualTerminal(20, 5);
+  const dt = new DynamicTerminal({ mode: "inline" });
+  await dt.start({ output: screen });
+  await dt.update([
+    { spinner: "line", text: DynamicTerminal.SPINNER + " one" },
+    { spinner: { style: ["x", "y"] }, text: DynamicTerminal.SPINNER + " two" },
+    { text: "three" }
+  ]);
+  t.deepEqual(screen.getLines(), ["- one", "x two", "three"]);
+  await dt.stop();
+  dt.destroy();
+});
@@ -0,0 +1,102 @@
+import chalk from "chalk";
+import elegantSpinner from "elegant-spinner";
+
+/** A set of spinner frames, and the milliseconds between each frame */
+export interface ISpinnerStyle {
+  frames: string[];
+  interval: number;
+}
+
+/** The spinner of a line, selected through the ILine.spinner field */
+export interface ILineSpinner {
+  /** The name of a spinner in the registry, or an array of custom frames */
+  style?: string | string[];
+  /** Milliseconds between each frame, the style's own interval by default */
+  interval?: number;
+  /** A chalk colour name, such as "cyan", or a hex colour code such as "#FF8800" */
+  colour?: string;
+}
+
+/**
+ * The named spinner styles. "elegant" is the default spinner, its interval is
+ * replaced by the updateFrequency option.
+ */
+export const SPINNERS: { [name: string]: ISpinnerStyle } = {
+  arc: { frames: ["◜", "◠", "◝", "◞", "◡", "◟"], interval: 100 },
+  bounce: { frames: ["⠁", "⠂", "⠄", "⠂"], interval: 120 },
+  dots: { frames: ["⠋", "⠙", "⠹", "⠸", "⠼", "⠴", "⠦", "⠧", "⠇", "⠏"], interval: 80 },
+  elegant: { frames: [...elegantSpinner.frames], interval: 100 },
+  line: { frames: ["-", "\\", "|", "/"], interval: 130 }
+};
+
+/**
+ * Resolves a line's spinner into its frames and interval. Unknown
+ * names and missing fields fall back to the default spinner.
+ */
+export function resolveSpinner(
+  spinner: string | ILineSpinner = {},
+  defaultStyle: ISpinnerStyle
+): ISpinnerStyle {
+  const options: ILineSpinner = typeof spinner === "string" ? { style: spinner } : spinner;
+  const style = Array.isArray(options.style)
+    ? { frames: options.style, interval: defaultStyle.interval }
+    : SPINNERS[options.style] || defaultStyle;
+  return {
+    frames: style.frames.length > 0 ? style.frames : defaultStyle.frames,
+    interval: options.interval > 0 ? options.interval : style.interval
+  };
+}
+
+/** Returns the frame of a spinner that should be displayed after some time has elapsed */
+export function getSpinnerFrame(style: ISpinnerStyle, elapsed: number): string {
+  return style.frames[Math.floor(elapsed / style.interval) % style.frames.length];
+}
+
+/**
+ * Returns a function that applies a chalk colour name or hex code
+ *
+ * @param fallback Used instead of a colour that chalk doesn't know, such as "grey50"
+ */
+export function getSpinnerColour(
+  colour: string,
+  fallback: (text: string) => string
+): (text: string) => string {
+  if (/^#?[0-9a-f]{3}([0-9a-f]{3})?$/i.test(colour)) {
+    return chalk.hex(colour);
+  }
+  if (typeof chalk[colour] === "function") {
+    return chalk[colour];
+  }
+  try {
+    return chalk.keyword(colour); // Throws if the CSS keyword doesn't exist
+  } catch (err) {
+    return fallback;
+  }
+}
+
+// Stands in for the text when a colour function is applied, to find the codes it adds. It
+// has letters, so that a function that changes the case of the text is noticed.
+const COLOUR_MARKER = "\u0000Spinner\u0000";
+
+/**
+ * Returns the codes that a colour function, such as chalk.red, puts before and
+ * after the text. A function can't be sent to a remote worker, its codes can.
+ * Returns null if the function changes the text itself.
+ */
+export function getColourCodes(colour: (text: string) => string): [string, string] {
+  const parts = String(colour(COLOUR_MARKER)).split(COLOUR_MARKER);
+  return parts.length === 2 ? [parts[0], parts[1]] : null;
+}
+
+/**
+ * The greatest common divisor of the intervals, used to drive all spinners
+ * with one timer. Intervals such as 7 and 11 would tick every millisecond, the
+ * timer never ticks faster than the minimum.
+ *
+ * @param minimum The shortest interval, usually the time between two frames
+ */
+export function getTimerInterval(intervals: number[], minimum: number = 0): number {
+  const gcd = (a: number, b: number): number => (b === 0 ? a : gcd(b, a % b));
+  const interval = intervals.map(Math.round).reduce(gcd, 0);
+  return interval > 0 ? Math.max(Math.ceil(minimum), interval) : 0;
+}
@@ -0,0 +1,72 @@
+import test from "ava";
+
+import {
+  applySGR,
+  carryStyles,
+  normalizeHyperlinks,
+  parseHyperlink,
+  styleAtEnd,
+  styleTransition,
+  trimTrailingBlanks
+} from "./Style";
+
+const ESC = "\x1B";
+
+test("applies SGR parameters the way a terminal does", t => {
+  t.deepEqual(applySGR({}, [1, 31, 44]), { background: "44", bold: true, foreground: "31" });
+  t.deepEqual(applySGR({}, [38, 5, 208, 48, 2, 0, 0, 0]), {
+    background: "48;2;0;0;0",
+    foreground: "38;5;208"
+  });
+  t.deepEqual(applySGR({ bold: true, dim: true, italic: true }, [22]), { italic: true });
+  t.deepEqual(applySGR({ foreground: "31", underline: true }, [39]), { underline: true });
+});
+
+test("resets every attribute but the hyperlink", t => {
+  t.deepEqual(applySGR({ bold: true, foreground: "31", link: ";https://a.com" }, [0]), {
+    link: ";https://a.com"
+  });
+  t.deepEqual(applySGR({ bold: true }, [NaN]), {}, "an empty parameter is a reset");
+});
+
+test("reaches a style with the shortest sequence of codes", t => {
+  t.is(styleTransition({}, {}), "");
+  t.is(styleTransition({}, { foreground: "31" }), `${ESC}[31m`);
+  t.is(styleTransition({ bold: true, foreground: "31" }, {}), `${ESC}[0m`);
+  t.is(styleTransition({ bold: true, foreground: "31" }, { foreground: "31" }), `${ESC}[22m`);
+  t.is(
+    styleTransition({ bold: true, dim: true, foreground: "31" }, { dim: true, foreground: "31" }),
+    `${ESC}[22;2m`,
+    "bold and dim are switched off together"
+  );
+});
+
+test("opens and closes hyperlinks", t => {
+  t.is(parseHyperlink(`${ESC}]8;;https://a.com\x07`), ";https://a.com");
+  t.is(parseHyperlink(`${ESC}]8;id=1;https://a.com${ESC}\\`), "id=1;https://a.com");
+  t.is(parseHyperlink(`${ESC}]8;;\x07`), "");
+  t.is(parseHyperlink(`${ESC}[31m`), null);
+  t.is(styleTransition({}, { link: ";https://a.com" }), `${ESC}]8;;https://a.com\x07`);
+  t.is(styleTransition({ link: ";https://a.com" }, {}), `${ESC}]8;;\x07`);
+  t.is(normalizeHyperlinks(`${ESC}]8;;https://a.com${ESC}\\a`), `${ESC}]8;;https://a.com\x07a`);
+});
+
+test("carries the styles that are left open to the next rows", t => {
+  t.deepEqual(styleAtEnd(`${ESC}[1mab${ESC}[31m`), { bold: true, foreground: "31" });
+  t.deepEqual(carryStyles([`${ESC}[1ma`, `b${ESC}[0m`, "c"]), [
+    `${ESC}[1ma`,
+    `${ESC}[1mb${ESC}[0m`,
+    "c"
+  ]);
+});
+
+test("trims the blanks at the end of a row, but not their codes", t => {
+  t.is(trimTrailingBlanks("ab  "), "ab");
+  t.is(trimTrailingBlanks(`ab${ESC}[31m  ${ESC}[39m`), `ab${ESC}[31m${ESC}[39m`);
+  t.is(
+    trimTrailingBlanks(`ab${ESC}[41m  ${ESC}[49m`),
+    `ab${ESC}[41m  ${ESC}[49m`,
+    "keeps backgrounds"
+  );
+  t.is(trimTrailingBlanks("   "), "");
+});
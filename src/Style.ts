@@ -0,0 +1,248 @@
+import ansiRegex from "ansi-regex";
+
+/** The graphic rendition (SGR) state of a terminal cell */
+export interface IStyle {
+  bold?: boolean;
+  dim?: boolean;
+  italic?: boolean;
+  underline?: boolean;
+  blink?: boolean;
+  inverse?: boolean;
+  hidden?: boolean;
+  strikethrough?: boolean;
+  /** The SGR parameters that select the foreground colour, such as "31" or "38;5;208" */
+  foreground?: string;
+  /** The SGR parameters that select the background colour, such as "41" or "48;2;0;0;0" */
+  background?: string;
+  /** The parameters and URI of an OSC 8 hyperlink, such as ";https://example.com" */
+  link?: string;
+}
+
+const ESC = "\x1B";
+const BEL = "\x07";
+const SGR_REGEX = /^(?:\x1B\[|\x9B)([0-9;]*)m$/;
+const HYPERLINK_REGEX = /^(?:\x1B\]|\x9D)8;([^;\x07\x1B]*;[^\x07\x1B]*)(?:\x07|\x1B\\)$/;
+// Operating System Commands may be terminated by BEL or ST, which ansi-regex doesn't fully support
+const OSC_SOURCE = "(?:\\x1B\\]|\\x9D)[^\\x07\\x1B]*(?:\\x07|\\x1B\\\\)";
+
+type AttributeKey = Exclude<keyof IStyle, "foreground" | "background" | "link">;
+
+// SGR parameters that toggle a single attribute, and the parameter that resets it
+const ATTRIBUTES: Array<{ key: AttributeKey; on: number; off: number }> = [
+  { key: "bold", on: 1, off: 22 },
+  { key: "dim", on: 2, off: 22 },
+  { key: "italic", on: 3, off: 23 },
+  { key: "underline", on: 4, off: 24 },
+  { key: "blink", on: 5, off: 25 },
+  { key: "inverse", on: 7, off: 27 },
+  { key: "hidden", on: 8, off: 28 },
+  { key: "strikethrough", on: 9, off: 29 }
+];
+
+/** Returns a global regex that matches every escape code in a string, including OSC sequences */
+export function escapeCodeRegex(): RegExp {
+  return new RegExp(`${OSC_SOURCE}|${ansiRegex().source}`, "g");
+}
+
+/** Returns the parameters of an SGR escape code, or null if the code is something else */
+export function parseSGR(code: string): number[] | null {
+  const match = SGR_REGEX.exec(code);
+  return match ? match[1].split(";").map(value => parseInt(value, 10)) : null;
+}
+
+/**
+ * Returns the parameters and URI of an OSC 8 hyperlink code, an empty string
+ * if the code closes a hyperlink, or null if the code is something else.
+ */
+export function parseHyperlink(code: string): string | null {
+  const match = HYPERLINK_REGEX.exec(code);
+  return match ? (match[1].replace(/^[^;]*;/, "") === "" ? "" : match[1]) : null;
+}
+
+/** Returns the OSC 8 code that opens a hyperlink, or closes the current one if there is no link */
+export function hyperlinkCode(link?: string): string {
+  return `${ESC}]8;${link || ";"}${BEL}`;
+}
+
+/**
+ * Returns a new style with an escape code applied, or null if the code doesn't
+ * change the style (such as cursor movement).
+ */
+export function applyCode(style: IStyle, code: string): IStyle | null {
+  const parameters = parseSGR(code);
+  if (parameters) {
+    return applySGR(style, parameters);
+  }
+  const link = parseHyperlink(code);
+  if (link !== null) {
+    const linked = { ...style, link };
+    if (link === "") {
+      delete linked.link;
+    }
+    return linked;
+  }
+  return null;
+}
+
+/** Returns a new style with SGR parameters applied, the same way a terminal would */
+export function applySGR(current: IStyle, values: number[]): IStyle {
+  const style = { ...current };
+  for (let i = 0; i < values.length; i++) {
+    const value = isNaN(values[i]) ? 0 : values[i];
+    const attribute = ATTRIBUTES.find(a => a.on === value);
+
+    if (value === 0) {
+      // Hyperlinks aren't a graphic rendition, and survive a reset
+      Object.keys(style)
+        .filter(key => key !== "link")
+        .forEach(key => delete style[key]);
+    } else if (attribute) {
+      style[attribute.key] = true;
+    } else if (ATTRIBUTES.some(a => a.off === value)) {
+      ATTRIBUTES.filter(a => a.off === value).forEach(a => delete style[a.key]);
+    } else if (value === 38 || value === 48) {
+      // Extended colours: 5;n (256 colours) or 2;r;g;b (truecolor)
+      const length = values[i + 1] === 5 ? 2 : values[i + 1] === 2 ? 4 : 0;
+      const colour = [value].concat(values.slice(i + 1, i + 1 + length)).join(";");
+      style[value === 38 ? "foreground" : "background"] = colour;
+      i += length;
+    } else if (value === 39) {
+      delete style.foreground;
+    } else if (value === 49) {
+      delete style.background;
+    } else if ((value >= 30 && value <= 37) || (value >= 90 && value <= 97)) {
+      style.foreground = value.toString();
+    } else if ((value >= 40 && value <= 47) || (value >= 100 && value <= 107)) {
+      style.background = value.toString();
+    }
+  }
+  return style;
+}
+
+/** Compares two styles, ignoring unset attributes */
+export function styleEquals(a: IStyle, b: IStyle): boolean {
+  return styleToSGR(a) === styleToSGR(b) && (a.link || "") === (b.link || "");
+}
+
+/** Returns the normalized SGR sequence that selects a style from a reset state, without the link */
+export function styleToSGR(style: IStyle): string {
+  return `${ESC}[${["0"].concat(styleParameters(style)).join(";")}m`;
+}
+
+/**
+ * Returns the shortest sequence of codes that changes the terminal's style from
+ * one state to another, either by switching individual attributes on and off, or
+ * by resetting and selecting the target style from scratch. Hyperlinks are opened
+ * and closed as needed.
+ */
+export function styleTransition(from: IStyle, to: IStyle): string {
+  const link = (from.link || "") === (to.link || "") ? "" : hyperlinkCode(to.link);
+  return sgrTransition(from, to) + link;
+}
+
+/** Ensures that OSC 8 hyperlinks are terminated by BEL, the form that wrapping understands */
+export function normalizeHyperlinks(text: string): string {
+  return text.replace(/\x1B\]8;([^;\x07\x1B]*;[^\x07\x1B]*)\x1B\\/g, `${ESC}]8;$1${BEL}`);
+}
+
+/** Returns the style that is active at the end of a string, the same way a terminal would */
+export function styleAtEnd(text: string, style: IStyle = {}): IStyle {
+  for (const code of text.match(escapeCodeRegex()) || []) {
+    style = applyCode(style, code) || style;
+  }
+  return style;
+}
+
+/**
+ * Removes the spaces at the end of a row that a terminal treats as empty cells
+ * when it reflows its rows, which are the ones without a background. The escape
+ * codes that follow them are kept, so that styles are still closed.
+ */
+export function trimTrailingBlanks(text: string): string {
+  let style: IStyle = {};
+  let kept = 0; // The end of the last cell that is kept
+  const keepCells = (part: string, offset: number) => {
+    for (let i = 0; i < part.length; i++) {
+      if (part[i] !== " " || style.background) {
+        kept = offset + i + 1;
+      }
+    }
+  };
+
+  const ar = escapeCodeRegex();
+  let last = 0;
+  let match = ar.exec(text);
+  while (match !== null) {
+    keepCells(text.slice(last, match.index), last);
+    style = applyCode(style, match[0]) || style;
+    last = ar.lastIndex;
+    match = ar.exec(text);
+  }
+  keepCells(text.slice(last), last);
+
+  const trimmed = text.slice(kept);
+  return trimmed === ""
+    ? text
+    : text.slice(0, kept) + (trimmed.match(escapeCodeRegex()) || []).join("");
+}
+
+/**
+ * Prefixes each row with the style that the rows before it left open. Rows
+ * that are split from the same text can then be written independently.
+ */
+export function carryStyles(rows: string[]): string[] {
+  let style: IStyle = {};
+  return rows.map(row => {
+    const carried = styleTransition({}, style) + row;
+    style = styleAtEnd(row, style);
+    return carried;
+  });
+}
+
+/** Returns the SGR part of a style transition */
+function sgrTransition(from: IStyle, to: IStyle): string {
+  if (styleToSGR(from) === styleToSGR(to)) {
+    return "";
+  }
+
+  const incremental: string[] = [];
+  // Bold and dim share an off parameter, the one that remains needs to be switched on again
+  const offs = ATTRIBUTES.filter(a => from[a.key] && !to[a.key]).map(a => a.off);
+  const resetsIntensity = offs.indexOf(22) !== -1;
+  offs
+    .filter((off, index) => offs.indexOf(off) === index)
+    .forEach(off => incremental.push(off.toString()));
+  for (const attribute of ATTRIBUTES) {
+    const intensity = attribute.off === 22 && resetsIntensity;
+    if (to[attribute.key] && (!from[attribute.key] || intensity)) {
+      incremental.push(attribute.on.toString());
+    }
+  }
+  if (from.foreground !== to.foreground) {
+    incremental.push(to.foreground || "39");
+  }
+  if (from.background !== to.background) {
+    incremental.push(to.background || "49");
+  }
+
+  const reset = ["0"].concat(styleParameters(to)).join(";");
+  const parameters = incremental.join(";");
+  return `${ESC}[${reset.length < parameters.length ? reset : parameters}m`;
+}
+
+/** Returns the SGR parameters that select each part of a style */
+function styleParameters(style: IStyle): string[] {
+  const parameters: string[] = [];
+  for (const attribute of ATTRIBUTES) {
+    if (style[attribute.key]) {
+      parameters.push(attribute.on.toString());
+    }
+  }
+  if (style.foreground) {
+    parameters.push(style.foreground);
+  }
+  if (style.background) {
+    parameters.push(style.background);
+  }
+  return parameters;
+}
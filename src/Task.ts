@@ -0,0 +1,117 @@
+export type TaskState = "pending" | "running" | "success" | "failed" | "skipped";
+
+/**
+ * A single task of a TaskList. Changing the state, title or output of a task
+ * re-renders the list automatically.
+ */
+export class Task {
+  public readonly subtasks: Task[] = [];
+
+  private title: string;
+  private state: TaskState = "pending";
+  private outputLines: string[] = [];
+  private startTime: number = null;
+  private endTime: number = null;
+  private onChange: () => void;
+
+  /**
+   * @param onChange Called whenever the task or one of its subtasks changes
+   */
+  constructor(title: string, onChange: () => void) {
+    this.title = title;
+    this.onChange = onChange;
+  }
+
+  /** Adds a nested task */
+  public add(title: string): Task {
+    const task = new Task(title, this.onChange);
+    this.subtasks.push(task);
+    this.onChange();
+    return task;
+  }
+
+  /** Marks the task as running, displaying a spinner */
+  public start(): this {
+    this.startTime = Date.now();
+    this.endTime = null;
+    return this.setState("running");
+  }
+
+  /**
+   * Marks the task as successful, replacing the spinner with a tick
+   *
+   * @param title Replaces the title of the task
+   */
+  public succeed(title?: string): this {
+    return this.finish("success", title);
+  }
+
+  /**
+   * Marks the task as failed, replacing the spinner with a cross
+   *
+   * @param err The reason of failure, displayed underneath the task
+   */
+  public fail(err?: Error | string): this {
+    if (err) {
+      this.output(typeof err === "string" ? err : err.message);
+    }
+    return this.finish("failed");
+  }
+
+  /**
+   * Marks the task as skipped
+   *
+   * @param reason Displayed next to the title
+   */
+  public skip(reason?: string): this {
+    return this.finish("skipped", reason ? `${this.title} (${reason})` : undefined);
+  }
+
+  public setTitle(title: string): this {
+    this.title = title;
+    this.onChange();
+    return this;
+  }
+
+  /** Adds to the output of the task. Only the tail of the output is displayed */
+  public output(text: string): this {
+    this.outputLines = this.outputLines.concat(text.replace(/\n$/, "").split("\n"));
+    this.onChange();
+    return this;
+  }
+
+  public getTitle(): string {
+    return this.title;
+  }
+
+  public getState(): TaskState {
+    return this.state;
+  }
+
+  /** Returns the last lines of output */
+  public getOutput(lines: number = Infinity): string[] {
+    return lines > 0 ? this.outputLines.slice(-lines) : [];
+  }
+
+  /** The milliseconds the task has been running for, or null if it never started */
+  public getDuration(): number {
+    if (this.startTime === null) {
+      return null;
+    }
+    return (this.endTime || Date.now()) - this.startTime;
+  }
+
+  private finish(state: TaskState, title?: string): this {
+    if (title !== undefined) {
+      this.title = title;
+    }
+    this.endTime = this.startTime === null ? null : Date.now();
+    return this.setState(state);
+  }
+
+  private setState(state: TaskState): this {
+    this.state = state;
+    this.onChange();
+    return this;
+  }
+}
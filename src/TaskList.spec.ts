@@ -0,0 +1,61 @@
+import test from "ava";
+
+import { DynamicTerminal } from "./DynamicTerminal";
+import { TaskList } from "./TaskList";
+import { TerminalError } from "./TerminalError";
+import { VirtualTerminal } from "./VirtualTerminal";
+
+async function session() {
+  const screen = new VirtualTerminal(40, 10);
+  const dt = new DynamicTerminal({ mode: "inline" });
+  await dt.start({ output: screen });
+  return { dt, screen };
+}
+
+test("renders nested tasks with their state and output", async t => {
+  const { dt, screen } = await session();
+  const list = new TaskList(dt, { outputLines: 2, showDuration: false });
+  const install = list.add("Install").start();
+  const fetch = install.add("Fetch").start();
+  fetch.output("one\ntwo\nthree");
+  list.add("Deploy");
+  await list.render();
+
+  const lines = screen.getLines();
+  t.is(lines.length, 5);
+  t.true(lines[0].endsWith(" Install"));
+  t.true(lines[1].startsWith("  ") && lines[1].endsWith(" Fetch"));
+  t.deepEqual(lines.slice(2, 4), ["    two", "    three"]);
+  t.true(lines[4].endsWith(" Deploy"));
+
+  fetch.succeed("Fetched");
+  install.fail("exit code 1");
+  await list.render();
+  t.deepEqual(
+    list.getLines().map(line => line.status),
+    ["failed", undefined, "success", "pending"],
+    "shows the output of a failed task"
+  );
+  t.deepEqual(screen.getLines().slice(1, 3), [
+    "  exit code 1",
+    `  ${DynamicTerminal.TICK_RAW} Fetched`
+  ]);
+  dt.destroy();
+});
+
+test("reports the renders that fail after a change", async t => {
+  const { dt } = await session();
+  const errors: Error[] = [];
+  const list = new TaskList(dt, { onError: error => errors.push(error) });
+  list.add("Install");
+  await list.render();
+  t.deepEqual(errors, []);
+
+  dt.destroy();
+  list.add("Deploy");
+  await new Promise(resolve => setImmediate(resolve));
+  t.is(errors.length, 1);
+  t.true(errors[0] instanceof TerminalError);
+  t.is((errors[0] as TerminalError).code, "WorkerNotStarted");
+  t.is(list.lastError, errors[0]);
+});
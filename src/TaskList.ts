@@ -0,0 +1,126 @@
+import chalk from "chalk";
+import figures from "figures";
+
+import { DynamicTerminal } from "./DynamicTerminal";
+import { ILine } from "./DynamicTerminalThread";
+import { Task, TaskState } from "./Task";
+
+export interface ITaskListOptions {
+  /** The number of output lines displayed under a running or failed task, 3 by default */
+  outputLines?: number;
+  /** The indentation of each level of nested tasks, 2 by default */
+  indent?: number;
+  /** Displays how long finished tasks took, true by default */
+  showDuration?: boolean;
+  /**
+   * Called when the list couldn't be rendered after a task changed, with the
+   * TerminalError of the update. The error is also kept in lastError.
+   */
+  onError?: (error: Error) => void;
+}
+
+const DEFAULT_OPTIONS: ITaskListOptions = {
+  indent: 2,
+  outputLines: 3,
+  showDuration: true
+};
+
+const SYMBOLS: { [state in TaskState]: string } = {
+  failed: DynamicTerminal.CROSS,
+  pending: chalk.gray(figures.circle),
+  running: DynamicTerminal.SPINNER,
+  skipped: chalk.yellow(figures.arrowDown),
+  success: DynamicTerminal.TICK
+};
+
+/**
+ * A list of nested tasks, built on top of DynamicTerminal. Each task shows a
+ * symbol for its state, its title, the tail of its output and its duration.
+ * The list is re-rendered whenever a task changes.
+ *
+ * ```javascript
+ * const list = new TaskList(dt);
+ * const install = list.add("Installing dependencies").start();
+ * install.output("added 120 packages");
+ * install.succeed();
+ * ```
+ */
+export class TaskList {
+  public readonly tasks: Task[] = [];
+  /** The error of the last render after a change that failed, see the onError option */
+  public lastError: Error = null;
+
+  private terminal: DynamicTerminal;
+  private options: ITaskListOptions;
+
+  /**
+   * @param terminal A DynamicTerminal with a started session
+   */
+  constructor(terminal: DynamicTerminal, options: ITaskListOptions = {}) {
+    this.terminal = terminal;
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  /** Adds a top-level task */
+  public add(title: string): Task {
+    const task = new Task(title, () => this.renderChange());
+    this.tasks.push(task);
+    this.renderChange();
+    return task;
+  }
+
+  /** Converts the tasks into lines for DynamicTerminal */
+  public getLines(): ILine[] {
+    return this.tasksToLines(this.tasks, 0);
+  }
+
+  /** Pushes the current state of the tasks to the terminal */
+  public render(): Promise<boolean> {
+    return this.terminal.update(this.getLines());
+  }
+
+  /** Renders after a change, nobody waits for the Promise so a failure is reported */
+  private renderChange() {
+    this.render().catch((err: Error) => {
+      this.lastError = err;
+      if (this.options.onError) {
+        this.options.onError(err);
+      }
+    });
+  }
+
+  private tasksToLines(tasks: Task[], depth: number): ILine[] {
+    const indent = depth * this.options.indent;
+    let lines: ILine[] = [];
+
+    for (const task of tasks) {
+      const state = task.getState();
+      lines.push({
+        indent,
+        status: state,
+        text: `${SYMBOLS[state]} ${task.getTitle()}${this.getDuration(task)}`
+      });
+
+      if (state === "running" || state === "failed") {
+        lines = lines.concat(
+          task
+            .getOutput(this.options.outputLines)
+            .map(text => ({ text: chalk.gray(text), indent: indent + this.options.indent }))
+        );
+      }
+
+      lines = lines.concat(this.tasksToLines(task.subtasks, depth + 1));
+    }
+
+    return lines;
+  }
+
+  private getDuration(task: Task): string {
+    const duration = task.getDuration();
+    const state = task.getState();
+    if (!this.options.showDuration || duration === null || state === "running") {
+      return "";
+    }
+    return chalk.gray(duration < 1000 ? ` (${duration}ms)` : ` (${(duration / 1000).toFixed(1)}s)`);
+  }
+}
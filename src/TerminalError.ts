@@ -0,0 +1,29 @@
+/**
+ * Why a command failed:
+ * - `"WorkerNotStarted"` there is no worker, it was destroyed or has exited
+ * - `"Timeout"` the worker didn't reply in time
+ * - `"RenderError"` the command was executed, but the frame could not be rendered
+ * - `"ProtocolMismatch"` the worker belongs to a copy of the package with another protocol version
+ * - `"InvalidCommand"` the worker doesn't know the command
+ * - `"InvalidArgument"` the command's data can't be used, it was rejected without changing the session
+ * - `"WorkerError"` the worker threw while executing the command
+ */
+export type TerminalErrorCode =
+  | "WorkerNotStarted"
+  | "Timeout"
+  | "RenderError"
+  | "ProtocolMismatch"
+  | "InvalidCommand"
+  | "InvalidArgument"
+  | "WorkerError";
+
+/** The error that DynamicTerminal promises are rejected with */
+export class TerminalError extends Error {
+  public readonly code: TerminalErrorCode;
+
+  constructor(code: TerminalErrorCode, message: string) {
+    super(message);
+    this.name = "TerminalError";
+    this.code = code;
+  }
+}
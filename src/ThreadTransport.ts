@@ -0,0 +1,54 @@
+import { EventEmitter } from "events";
+import path from "path";
+import { Worker } from "worker_threads";
+
+import { Command } from "./Protocol";
+import { ITransport } from "./Transport";
+
+/**
+ * Hosts the thread in a worker thread. Starts faster and uses less memory than
+ * a child process, and messages are structured clones instead of JSON over IPC.
+ */
+export class ThreadTransport extends EventEmitter implements ITransport {
+  public readonly remote = true;
+  public readonly sharesStdio = false;
+
+  private worker: Worker;
+  private connected: boolean = false;
+
+  constructor() {
+    super();
+    // Loaded lazily, worker_threads is not available on older versions of Node.js
+    const { Worker: WorkerThread } = require("worker_threads") as typeof import("worker_threads");
+    this.worker = new WorkerThread(path.join(__dirname, "/ThreadWorker.js"));
+    this.connected = true;
+    this.worker.setMaxListeners(32); // Fast updates may exceed the default limit
+    this.worker.on("message", msg => this.emit("message", msg));
+    this.worker.once("exit", () => {
+      this.connected = false;
+      this.emit("disconnect");
+    });
+  }
+
+  public isConnected(): boolean {
+    return this.connected;
+  }
+
+  public send(message: Command, callback?: (err: Error) => void) {
+    try {
+      this.worker.postMessage(message);
+    } catch (err) {
+      if (callback) {
+        callback(err);
+      }
+      return;
+    }
+    if (callback) {
+      callback(null);
+    }
+  }
+
+  public destroy() {
+    this.worker.postMessage({ cmd: "DESTROY" });
+  }
+}
@@ -0,0 +1,24 @@
+import _debug from "debug";
+import { parentPort } from "worker_threads";
+
+import { DynamicTerminalThread, handleMessage } from "./DynamicTerminalThread";
+
+const defaultDebug = _debug("DTTCommand");
+
+/**
+ * The entry point of the worker thread that is started by the "thread" transport.
+ * Hosts a DynamicTerminalThread and relays the message port to it.
+ */
+
+const worker = new DynamicTerminalThread(message => parentPort.postMessage(message));
+
+parentPort.on("message", msg => {
+  if (typeof msg === "object" && msg.cmd === "DESTROY") {
+    defaultDebug("Destroying...");
+    // Closing the port lets the thread exit once the session is cleaned up
+    worker.destroy();
+    parentPort.close();
+    return;
+  }
+  handleMessage(worker, msg, message => parentPort.postMessage(message));
+});
@@ -0,0 +1,38 @@
+import test from "ava";
+
+import { DynamicTerminal } from "./DynamicTerminal";
+import { TerminalError } from "./TerminalError";
+import { TransportMode } from "./Transport";
+import { VirtualTerminal } from "./VirtualTerminal";
+
+const MODES: TransportMode[] = ["inline", "thread", "process"];
+
+// Chalk leaves the text alone when the tests' output isn't a terminal, the codes are written out
+const red = (text: string) => "\x1B[31m" + text + "\x1B[39m";
+
+for (const mode of MODES) {
+  test(`${mode}: colours the spinners with the spinnerColour option`, async t => {
+    const screen = new VirtualTerminal(20, 5);
+    const dt = new DynamicTerminal({ mode });
+    await dt.start({ output: screen, spinnerColour: red });
+    await dt.update(DynamicTerminal.SPINNER + " Working");
+    t.is(screen.getCell(0, 0).style.foreground, "31");
+    t.is(screen.getCell(0, 2).style.foreground, undefined);
+    await dt.stop();
+    dt.destroy();
+  });
+
+  test(`${mode}: rejects a spinnerColour that can't be sent to the worker`, async t => {
+    const screen = new VirtualTerminal(20, 5);
+    const dt = new DynamicTerminal({ mode });
+    const start = dt.start({ output: screen, spinnerColour: text => text.toUpperCase() });
+    if (mode === "inline") {
+      t.true(await start);
+      await dt.stop();
+    } else {
+      const error = await t.throwsAsync<TerminalError>(start);
+      t.is(error.code, "InvalidArgument");
+    }
+    dt.destroy();
+  });
+}
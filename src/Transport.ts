@@ -0,0 +1,53 @@
+import { EventEmitter } from "events";
+
+import { InlineTransport } from "./InlineTransport";
+import { ProcessTransport } from "./ProcessTransport";
+import { Command } from "./Protocol";
+import { ThreadTransport } from "./ThreadTransport";
+
+/**
+ * Where the DynamicTerminalThread is hosted:
+ * - `"process"` forks a child process with `cluster`
+ * - `"thread"` starts a worker thread with `worker_threads`, or falls back to a
+ *   child process where it isn't available (Node.js 10 without --experimental-worker)
+ * - `"inline"` runs the render loop in the current process
+ */
+export type TransportMode = "process" | "thread" | "inline";
+
+/**
+ * A channel between the DynamicTerminal controller and its DynamicTerminalThread.
+ * Emits a "message" event for every reply, and "disconnect" when the channel closes.
+ */
+export interface ITransport extends EventEmitter {
+  /** Whether messages are copied to another process or thread, rather than passed by reference */
+  readonly remote: boolean;
+  /** Whether the thread can use this process' standard streams (stdin, stdout and stderr) */
+  readonly sharesStdio: boolean;
+
+  isConnected(): boolean;
+  send(message: Command, callback?: (err: Error) => void): void;
+  destroy(): void;
+}
+
+/** Creates the transport for the requested mode */
+export function createTransport(mode: TransportMode): ITransport {
+  switch (mode) {
+    case "inline":
+      return new InlineTransport();
+    case "thread":
+      return hasWorkerThreads() ? new ThreadTransport() : new ProcessTransport();
+    case "process":
+    default:
+      return new ProcessTransport();
+  }
+}
+
+/** Whether worker threads can be started, they need a flag on Node.js 10 */
+function hasWorkerThreads(): boolean {
+  try {
+    require("worker_threads");
+    return true;
+  } catch (err) {
+    return false;
+  }
+}
@@ -0,0 +1,80 @@
+import test from "ava";
+
+import { DynamicTerminal } from "./DynamicTerminal";
+import { VirtualTerminal } from "./VirtualTerminal";
+
+test("prints text and moves the cursor after it", t => {
+  const screen = new VirtualTerminal(20, 5);
+  screen.feed("Hello\nWorld");
+  t.deepEqual(screen.getLines(), ["Hello", "World"]);
+  t.deepEqual(screen.cursor, { line: 1, column: 5 });
+});
+
+test("wraps at the last column and scrolls rows into the scrollback", t => {
+  const screen = new VirtualTerminal(4, 2);
+  screen.feed("abcdef\nghi");
+  t.deepEqual(screen.getScrollback(), ["abcd"]);
+  t.deepEqual(screen.getLines(), ["ef", "ghi"]);
+});
+
+test("moves the cursor and erases with CSI sequences", t => {
+  const screen = new VirtualTerminal(20, 5);
+  screen.feed("one\ntwo\nthree");
+  screen.feed("\x1B[2F\x1B[K1\x1B[1E\x1B[1C\x1B[J");
+  t.deepEqual(screen.getLines(), ["1", "t"]);
+  t.deepEqual(screen.cursor, { line: 1, column: 1 });
+
+  screen.feed("\x1B[3;4Hx\x1B[2J");
+  t.deepEqual(screen.getLines(), []);
+  t.deepEqual(screen.cursor, { line: 2, column: 4 });
+});
+
+test("keeps an escape sequence that is split across writes", t => {
+  const screen = new VirtualTerminal(20, 5);
+  screen.feed("abc\x1B[");
+  screen.feed("2Dx");
+  t.deepEqual(screen.getLines(), ["axc"]);
+});
+
+test("tracks SGR styles and normalizes them", t => {
+  const screen = new VirtualTerminal(20, 5);
+  screen.feed("\x1B[1;31mred\x1B[22m!\x1B[0m plain \x1B[38;2;1;2;3mrgb\x1B[39m");
+  t.deepEqual(screen.getCell(0, 0).style, { bold: true, foreground: "31" });
+  t.deepEqual(screen.getCell(0, 3).style, { foreground: "31" });
+  t.deepEqual(screen.getStyledLines(), [
+    "\x1B[0;1;31mred\x1B[0;31m!\x1B[0m plain \x1B[0;38;2;1;2;3mrgb\x1B[0m"
+  ]);
+});
+
+test("hides and shows the cursor", t => {
+  const screen = new VirtualTerminal(20, 5);
+  screen.feed("\x1B[?25l");
+  t.false(screen.cursorVisible);
+  screen.feed("\x1B[?25h");
+  t.true(screen.cursorVisible);
+});
+
+test("is a writable stream that emits resize like a TTY", async t => {
+  const screen = new VirtualTerminal(20, 5);
+  let resized = false;
+  screen.on("resize", () => (resized = true));
+  await new Promise(resolve => screen.write(Buffer.from("from a buffer"), resolve));
+  screen.resize(10, 5);
+  t.true(resized);
+  t.is(screen.columns, 10);
+  t.deepEqual(screen.getLines(), ["from a buf", "fer"]); // reflowed like a terminal
+});
+
+test("displays what DynamicTerminal renders", async t => {
+  const screen = new VirtualTerminal(20, 5);
+  const dt = new DynamicTerminal({ mode: "inline" });
+  await dt.start({ output: screen });
+  await dt.update(["Hello", "World"]);
+  t.deepEqual(screen.getLines(), ["Hello", "World"]);
+  t.deepEqual(screen.cursor, { line: 1, column: 5 });
+
+  await dt.update(["Hi"]);
+  t.deepEqual(screen.getLines(), ["Hi"]);
+  await dt.stop();
+  dt.destroy();
+});
@@ -0,0 +1,580 @@
+import { Writable } from "stream";
+import { applyCode, applySGR, hyperlinkCode, IStyle, styleToSGR } from "./Style";
+import { graphemeWidth, splitGraphemes } from "./Width";
+
+export { IStyle } from "./Style";
+
+/**
+ * A single character cell of the virtual screen. Wide characters occupy
+ * two cells, the second of which has an empty char.
+ */
+export interface ICell {
+  char: string;
+  style: IStyle;
+}
+
+/**
+ * A row of the virtual screen, marked if its text was wrapped onto the next row.
+ * A padded row left its last cell blank, as the wide character that followed
+ * didn't fit. The padding isn't part of the text when the row is reflowed.
+ */
+type Row = ICell[] & { wrapped?: boolean; padded?: boolean };
+
+const ESC = "\x1B";
+const BLANK = " ";
+
+/**
+ * A headless terminal screen. It parses the escape sequences that DynamicTerminal
+ * emits (cursor movement, erasing, SGR styles) into a grid of cells, which makes
+ * it possible to assert what a real terminal would display.
+ *
+ * The class is a writable stream, and may be passed as the `output` option.
+ * Like a TTY, a line feed also returns the cursor to the start of the line.
+ *
+ * ```javascript
+ * const screen = new VirtualTerminal(40, 10);
+ * await dt.start({ output: screen });
+ * await dt.update(["Hello", "World"]);
+ * screen.getLines(); // ["Hello", "World"]
+ * ```
+ */
+export class VirtualTerminal extends Writable {
+  public readonly isTTY = true;
+  public columns: number;
+  public rows: number;
+
+  /** Whether the cursor has been hidden with DECTCEM */
+  public cursorVisible: boolean = true;
+
+  private screen: Row[] = [];
+  private scrollback: Row[] = [];
+  private cursorLine: number = 0;
+  private cursorColumn: number = 0;
+  private wrapPending: boolean = false; // The cursor is past the last column, waiting to wrap
+  private savedCursor: { line: number; column: number } = { line: 0, column: 0 };
+  private style: IStyle = {};
+  private pending: string = ""; // An incomplete escape sequence from the previous write
+  private mainScreen: { screen: Row[]; line: number; column: number } = null; // Kept while the alternate screen is displayed
+
+  constructor(columns: number = 80, rows: number = 24) {
+    super({ decodeStrings: false });
+    this.columns = columns;
+    this.rows = rows;
+    this.reset();
+  }
+
+  /** Clears the screen and scrollback, and resets the cursor and style */
+  public reset() {
+    this.screen = [];
+    for (let line = 0; line < this.rows; line++) {
+      this.screen.push(this.blankRow());
+    }
+    this.scrollback = [];
+    this.cursorLine = 0;
+    this.cursorColumn = 0;
+    this.wrapPending = false;
+    this.style = {};
+    this.pending = "";
+    this.mainScreen = null;
+  }
+
+  /** Synchronously processes terminal output, the same as a completed write() */
+  public feed(data: string) {
+    data = this.pending + data;
+    this.pending = "";
+
+    let i = 0;
+    while (i < data.length) {
+      const char = data[i];
+
+      if (char === ESC) {
+        const end = this.parseEscape(data, i);
+        if (end === -1) {
+          this.pending = data.slice(i);
+          return;
+        }
+        i = end;
+        continue;
+      }
+
+      switch (char) {
+        case "\r":
+          this.cursorColumn = 0;
+          this.wrapPending = false;
+          break;
+        case "\n":
+          this.cursorColumn = 0;
+          this.lineFeed();
+          break;
+        case "\b":
+          this.cursorColumn = Math.max(0, this.cursorColumn - 1);
+          this.wrapPending = false;
+          break;
+        default:
+          if (char >= " ") {
+            // Print the run of text up to the next control character, one grapheme at a time
+            let end = i + 1;
+            while (end < data.length && data[end] >= " " && data[end] !== ESC) {
+              end++;
+            }
+            for (const grapheme of splitGraphemes(data.slice(i, end))) {
+              this.print(grapheme);
+            }
+            i = end;
+            continue;
+          }
+      }
+      i++;
+    }
+  }
+
+  /**
+   * Changes the size of the screen, and emits a "resize" event like a TTY stream.
+   * Like most terminals, text that was wrapped is reflowed to the new width, and
+   * rows that no longer fit are pushed into the scrollback. The alternate screen
+   * is only cut or extended.
+   */
+  public resize(columns: number, rows: number) {
+    if (this.mainScreen) {
+      // The main screen is resized behind the alternate screen, which is only cut or extended
+      const alternate = this.screen;
+      const line = this.cursorLine;
+      const column = this.cursorColumn;
+      this.exitAlternateScreen();
+      this.resizeScreen(columns, rows);
+      this.mainScreen = { screen: this.screen, line: this.cursorLine, column: this.cursorColumn };
+      this.screen = alternate.slice(0, rows).map(row => {
+        const resized: Row = row.slice(0, columns);
+        while (resized.length < columns) {
+          resized.push({ char: BLANK, style: {} });
+        }
+        return resized;
+      });
+      while (this.screen.length < rows) {
+        this.screen.push(this.blankRow());
+      }
+      this.moveTo(line, column);
+    } else {
+      this.resizeScreen(columns, rows);
+    }
+    this.emit("resize");
+  }
+
+  /** Whether the alternate screen is displayed (DEC private mode 1049) */
+  public get alternateScreen(): boolean {
+    return this.mainScreen !== null;
+  }
+
+  /**
+   * Returns the text of each row on screen, without styles or trailing
+   * whitespace. Empty rows at the bottom of the screen are omitted.
+   */
+  public getLines(): string[] {
+    return this.trimRows(this.screen.map(row => this.rowToText(row)));
+  }
+
+  /** Returns the text of the rows that have scrolled off the top of the screen */
+  public getScrollback(): string[] {
+    return this.scrollback.map(row => this.rowToText(row));
+  }
+
+  /**
+   * Returns each row on screen with its styles as SGR escape codes, and links as
+   * OSC 8 codes. The codes are normalized, which makes the output suitable for
+   * snapshot testing.
+   */
+  public getStyledLines(): string[] {
+    return this.trimRows(
+      this.screen.map(row => {
+        let text = "";
+        let current: IStyle = {};
+        for (const cell of this.trimCells(row)) {
+          if (styleToSGR(cell.style) !== styleToSGR(current)) {
+            text += styleToSGR(cell.style);
+          }
+          if ((cell.style.link || "") !== (current.link || "")) {
+            text += hyperlinkCode(cell.style.link);
+          }
+          current = cell.style;
+          text += cell.char;
+        }
+        if (styleToSGR(current) !== styleToSGR({})) {
+          text += styleToSGR({});
+        }
+        return current.link ? text + hyperlinkCode() : text;
+      })
+    );
+  }
+
+  /** Returns the cell at the given screen position */
+  public getCell(line: number, column: number): ICell {
+    const row = this.screen[line];
+    return row ? row[column] : undefined;
+  }
+
+  /** The position of the cursor on screen */
+  public get cursor(): { line: number; column: number } {
+    return { line: this.cursorLine, column: this.cursorColumn };
+  }
+
+  /** Returns the screen as it would be displayed, one row per line */
+  public toString(): string {
+    return this.getLines().join("\n");
+  }
+
+  public _write(chunk: Buffer | string, encoding: string, callback: (err?: Error) => void) {
+    this.feed(
+      Buffer.isBuffer(chunk) ? chunk.toString(encoding === "buffer" ? "utf8" : encoding) : chunk
+    );
+    callback();
+  }
+
+  /**
+   * Parses the escape sequence that starts at index, returning the index after
+   * the sequence, or -1 if the sequence is incomplete.
+   */
+  private parseEscape(data: string, index: number): number {
+    const type = data[index + 1];
+    if (type === undefined) {
+      return -1;
+    }
+
+    if (type === "[") {
+      // Control Sequence Introducer, parameters and intermediates followed by a final byte
+      let end = index + 2;
+      while (end < data.length && data.charCodeAt(end) >= 0x20 && data.charCodeAt(end) <= 0x3f) {
+        end++;
+      }
+      if (end >= data.length) {
+        return -1;
+      }
+      this.controlSequence(data.slice(index + 2, end), data[end]);
+      return end + 1;
+    }
+
+    if (type === "]") {
+      // Operating System Command, terminated by BEL or ST. Only hyperlinks affect the screen
+      const bell = data.indexOf("\x07", index);
+      const st = data.indexOf(ESC + "\\", index);
+      const ends = [bell === -1 ? -1 : bell + 1, st === -1 ? -1 : st + 2].filter(v => v !== -1);
+      if (ends.length === 0) {
+        return -1;
+      }
+      const end = Math.min(...ends);
+      this.style = applyCode(this.style, data.slice(index, end)) || this.style;
+      return end;
+    }
+
+    switch (type) {
+      case "7":
+        this.savedCursor = { line: this.cursorLine, column: this.cursorColumn };
+        break;
+      case "8":
+        this.cursorLine = this.savedCursor.line;
+        this.cursorColumn = this.savedCursor.column;
+        this.wrapPending = false;
+        break;
+      case "c":
+        this.reset();
+        break;
+    }
+    return index + 2;
+  }
+
+  /** Executes a CSI sequence */
+  private controlSequence(parameters: string, final: string) {
+    const privateMode = parameters[0] === "?";
+    const values = (privateMode ? parameters.slice(1) : parameters)
+      .split(";")
+      .map(value => (value === "" ? NaN : parseInt(value, 10)));
+    const count = isNaN(values[0]) ? 1 : Math.max(1, values[0]);
+
+    if (privateMode) {
+      if (values[0] === 25 && (final === "h" || final === "l")) {
+        this.cursorVisible = final === "h";
+      } else if (values[0] === 1049 && final === "h") {
+        this.enterAlternateScreen();
+      } else if (values[0] === 1049 && final === "l") {
+        this.exitAlternateScreen();
+      }
+      return;
+    }
+
+    switch (final) {
+      case "A": // Cursor up
+        this.moveTo(this.cursorLine - count, this.cursorColumn);
+        break;
+      case "B": // Cursor down
+        this.moveTo(this.cursorLine + count, this.cursorColumn);
+        break;
+      case "C": // Cursor forward
+        this.moveTo(this.cursorLine, this.cursorColumn + count);
+        break;
+      case "D": // Cursor back
+        this.moveTo(this.cursorLine, this.cursorColumn - count);
+        break;
+      case "E": // Cursor next line
+        this.moveTo(this.cursorLine + count, 0);
+        break;
+      case "F": // Cursor previous line
+        this.moveTo(this.cursorLine - count, 0);
+        break;
+      case "G": // Cursor horizontal absolute
+        this.moveTo(this.cursorLine, count - 1);
+        break;
+      case "H": // Cursor position
+      case "f":
+        this.moveTo(count - 1, isNaN(values[1]) ? 0 : Math.max(1, values[1]) - 1);
+        break;
+      case "J":
+        this.eraseDisplay(isNaN(values[0]) ? 0 : values[0]);
+        break;
+      case "K":
+        this.eraseLine(isNaN(values[0]) ? 0 : values[0]);
+        break;
+      case "m":
+        this.selectGraphicRendition(values);
+        break;
+    }
+  }
+
+  /** Updates the current style with SGR parameters */
+  private selectGraphicRendition(values: number[]) {
+    this.style = applySGR(this.style, values);
+  }
+
+  /** Writes a grapheme at the cursor, wrapping to the next line if necessary */
+  private print(char: string) {
+    const width = graphemeWidth(char);
+    if (width === 0) {
+      // Combining characters modify the previous cell
+      const column = this.wrapPending ? this.cursorColumn : this.cursorColumn - 1;
+      const row = this.screen[this.cursorLine];
+      const cell = row[column] && row[column].char === "" ? row[column - 1] : row[column];
+      if (cell) {
+        cell.char += char;
+      }
+      return;
+    }
+
+    // A wide character that doesn't fit on the line is moved to the next one
+    if (this.wrapPending || (width === 2 && this.cursorColumn === this.columns - 1)) {
+      this.screen[this.cursorLine].wrapped = true;
+      this.screen[this.cursorLine].padded = !this.wrapPending;
+      this.cursorColumn = 0;
+      this.lineFeed();
+    }
+    this.setCell(this.cursorColumn, { char, style: this.style });
+    if (width === 2 && this.columns > 1) {
+      this.cursorColumn++;
+      this.setCell(this.cursorColumn, { char: "", style: this.style });
+    }
+    if (this.cursorColumn === this.columns - 1) {
+      this.wrapPending = true;
+    } else {
+      this.cursorColumn++;
+    }
+  }
+
+  /** Replaces a cell on the cursor's row, erasing any wide character that is partly overwritten */
+  private setCell(column: number, cell: ICell) {
+    const row = this.screen[this.cursorLine];
+    if (row[column].char === "" && column > 0 && cell.char !== "") {
+      row[column - 1] = { char: BLANK, style: row[column - 1].style };
+    }
+    if (row[column + 1] && row[column + 1].char === "") {
+      row[column + 1] = { char: BLANK, style: row[column + 1].style };
+    }
+    row[column] = cell;
+    if (column === this.columns - 1) {
+      row.padded = false; // The last cell holds text again
+    }
+  }
+
+  /** Displays a blank screen without scrollback, the main screen and cursor are kept */
+  private enterAlternateScreen() {
+    if (!this.mainScreen) {
+      this.mainScreen = { screen: this.screen, line: this.cursorLine, column: this.cursorColumn };
+      this.screen = this.screen.map(() => this.blankRow());
+    }
+  }
+
+  /** Displays the main screen again, with the cursor where it was */
+  private exitAlternateScreen() {
+    if (this.mainScreen) {
+      this.screen = this.mainScreen.screen;
+      this.cursorLine = this.mainScreen.line;
+      this.cursorColumn = this.mainScreen.column;
+      this.wrapPending = false;
+      this.mainScreen = null;
+    }
+  }
+
+  /** Moves the cursor down, scrolling the screen if it's on the last row */
+  private lineFeed() {
+    this.wrapPending = false;
+    if (this.cursorLine === this.rows - 1) {
+      // Rows that scroll off the alternate screen are lost
+      const row = this.screen.shift();
+      if (!this.mainScreen) {
+        this.scrollback.push(row);
+      }
+      this.screen.push(this.blankRow());
+    } else {
+      this.cursorLine++;
+    }
+  }
+
+  private moveTo(line: number, column: number) {
+    this.cursorLine = Math.min(Math.max(0, line), this.rows - 1);
+    this.cursorColumn = Math.min(Math.max(0, column), this.columns - 1);
+    this.wrapPending = false;
+  }
+
+  private eraseDisplay(mode: number) {
+    if (mode === 0) {
+      this.eraseLine(0);
+      for (let line = this.cursorLine + 1; line < this.rows; line++) {
+        this.screen[line] = this.blankRow();
+      }
+    } else if (mode === 1) {
+      this.eraseLine(1);
+      for (let line = 0; line < this.cursorLine; line++) {
+        this.screen[line] = this.blankRow();
+      }
+    } else if (mode === 2 || mode === 3) {
+      this.screen = this.screen.map(() => this.blankRow());
+      if (mode === 3) {
+        this.scrollback = [];
+      }
+    }
+  }
+
+  private eraseLine(mode: number) {
+    const row = this.screen[this.cursorLine];
+    const start = mode === 0 ? this.cursorColumn : 0;
+    const end = mode === 1 ? this.cursorColumn + 1 : this.columns;
+    for (let column = start; column < end; column++) {
+      row[column] = { char: BLANK, style: {} };
+    }
+    if (mode !== 1) {
+      row.wrapped = false;
+      row.padded = false;
+    }
+  }
+
+  /**
+   * Resizes the screen that is displayed. Like most terminals, text that was
+   * wrapped is reflowed to the new width, and rows that no longer fit are pushed
+   * into the scrollback.
+   */
+  private resizeScreen(columns: number, rows: number) {
+    if (columns !== this.columns) {
+      this.reflow(columns);
+    }
+    // Empty rows below the cursor are dropped before any text is scrolled away
+    const screen = this.screen;
+    while (
+      screen.length > rows &&
+      screen.length - 1 > this.cursorLine &&
+      this.trimCells(screen[screen.length - 1]).length === 0
+    ) {
+      screen.pop();
+    }
+    while (screen.length > rows) {
+      this.scrollback.push(screen.shift());
+      this.cursorLine = Math.max(0, this.cursorLine - 1);
+    }
+    this.rows = rows;
+    while (screen.length < rows) {
+      screen.push(this.blankRow());
+    }
+  }
+
+  /**
+   * Joins the rows that were wrapped and splits them again at a new width. Wide
+   * characters that would be cut in half are moved to the next row, and the
+   * cursor stays on the same character.
+   */
+  private reflow(columns: number) {
+    const screen: Row[] = [];
+    let cells: ICell[] = [];
+    let cursor = -1; // The cursor's offset in the cells of the current logical line
+    let cursorLine = 0;
+    let cursorColumn = 0;
+
+    this.screen.forEach((row, index) => {
+      if (index === this.cursorLine) {
+        cursor = cells.length + this.cursorColumn + (this.wrapPending ? 1 : 0);
+      }
+      const last = index === this.screen.length - 1;
+      const wrapped = row.wrapped && !last;
+      cells = cells.concat(wrapped ? (row.padded ? row.slice(0, -1) : row) : this.trimCells(row));
+      if (wrapped) {
+        return;
+      }
+
+      let start = 0;
+      do {
+        let end = Math.min(start + columns, cells.length);
+        const padded = end < cells.length && cells[end].char === "" && end - start > 1;
+        if (padded) {
+          end--;
+        }
+        const split: Row = cells.slice(start, end);
+        while (split.length < columns) {
+          split.push({ char: BLANK, style: {} });
+        }
+        split.wrapped = end < cells.length;
+        split.padded = padded;
+        if (cursor >= start && (cursor < end || !split.wrapped)) {
+          cursorLine = screen.length;
+          cursorColumn = cursor - start;
+          cursor = -1;
+        }
+        screen.push(split);
+        start = end;
+      } while (start < cells.length);
+      cells = [];
+    });
+
+    this.screen = screen;
+    this.columns = columns;
+    this.cursorLine = cursorLine;
+    this.cursorColumn = Math.min(cursorColumn, columns - 1);
+    this.wrapPending = cursorColumn >= columns;
+  }
+
+  private blankRow(): Row {
+    const row: Row = [];
+    for (let column = 0; column < this.columns; column++) {
+      row.push({ char: BLANK, style: {} });
+    }
+    return row;
+  }
+
+  /** Removes trailing blank cells that have no visible style */
+  private trimCells(row: ICell[]): ICell[] {
+    let end = row.length;
+    while (end > 0 && row[end - 1].char === BLANK && !row[end - 1].style.background) {
+      end--;
+    }
+    return row.slice(0, end);
+  }
+
+  private rowToText(row: ICell[]): string {
+    return this.trimCells(row)
+      .map(cell => cell.char)
+      .join("")
+      .replace(/\s+$/, "");
+  }
+
+  /** Removes empty rows from the bottom of the screen */
+  private trimRows(rows: string[]): string[] {
+    let end = rows.length;
+    while (end > 0 && rows[end - 1] === "") {
+      end--;
+    }
+    return rows.slice(0, end);
+  }
+}
@@ -0,0 +1,84 @@
+import stringWidth from "string-width";
+import { escapeCodeRegex } from "./Style";
+
+// Code points that extend the previous grapheme instead of starting a new one
+const EXTENDERS: Array<[number, number]> = [
+  [0x0300, 0x036f], // Combining diacritical marks
+  [0x0483, 0x0489], // Cyrillic combining marks
+  [0x0591, 0x05bd], // Hebrew points
+  [0x0610, 0x061a], // Arabic marks
+  [0x064b, 0x065f],
+  [0x0e31, 0x0e31], // Thai vowels and tone marks
+  [0x0e34, 0x0e3a],
+  [0x0e47, 0x0e4e],
+  [0x1ab0, 0x1aff], // Combining diacritical marks extended
+  [0x1dc0, 0x1dff], // Combining diacritical marks supplement
+  [0x200c, 0x200d], // Zero width (non-)joiner
+  [0x20d0, 0x20ff], // Combining marks for symbols
+  [0x302a, 0x302f], // CJK tone marks
+  [0x3099, 0x309a], // Kana voiced sound marks
+  [0xfe00, 0xfe0f], // Variation selectors
+  [0xfe20, 0xfe2f], // Combining half marks
+  [0x1f3fb, 0x1f3ff], // Emoji skin tone modifiers
+  [0xe0020, 0xe007f], // Tags, used by flag sequences
+  [0xe0100, 0xe01ef] // Variation selectors supplement
+];
+
+const ZWJ = 0x200d;
+const REGIONAL_INDICATORS: [number, number] = [0x1f1e6, 0x1f1ff];
+
+const inRange = (code: number, [start, end]: [number, number]) => code >= start && code <= end;
+
+// Available from Node.js 16, a simplified segmentation is used otherwise
+const Segmenter = typeof Intl === "object" ? Intl.Segmenter : undefined;
+const segmenter = Segmenter ? new Segmenter(undefined, { granularity: "grapheme" }) : null;
+
+/**
+ * Splits text without ANSI codes into grapheme clusters, the characters that
+ * a user perceives. Combining marks, emoji sequences and surrogate pairs are
+ * kept together.
+ */
+export function splitGraphemes(text: string): string[] {
+  if (segmenter) {
+    return Array.from(segmenter.segment(text), segment => segment.segment);
+  }
+
+  const graphemes: string[] = [];
+  let joined = false; // The previous code point was a zero width joiner
+  let regionalPair = false; // The previous code point opened a flag
+
+  for (const char of text) {
+    const code = char.codePointAt(0);
+    const isRegional = inRange(code, REGIONAL_INDICATORS);
+    const extend =
+      graphemes.length > 0 &&
+      (joined || EXTENDERS.some(range => inRange(code, range)) || (isRegional && regionalPair));
+
+    if (extend) {
+      graphemes[graphemes.length - 1] += char;
+    } else {
+      graphemes.push(char);
+    }
+    joined = code === ZWJ;
+    regionalPair = isRegional && !(extend && regionalPair);
+  }
+
+  return graphemes;
+}
+
+/**
+ * Returns the number of terminal cells that a grapheme occupies: 2 for East
+ * Asian wide and full-width characters and emoji, 0 for control characters.
+ * The width is decided by the first code point, the rest only modify it.
+ */
+export function graphemeWidth(grapheme: string): number {
+  return grapheme === "" ? 0 : stringWidth(String.fromCodePoint(grapheme.codePointAt(0)));
+}
+
+/** Returns the number of terminal cells that text occupies, ignoring ANSI codes */
+export function textWidth(text: string): number {
+  return splitGraphemes(text.replace(escapeCodeRegex(), "")).reduce(
+    (width, g) => width + graphemeWidth(g),
+    0
+  );
+}
@@ -1,2 +1,17 @@
 export * from "./DynamicTerminal";
+export * from "./Compositor";
 export * from "./DynamicTerminalThread";
+export * from "./Transport";
+export * from "./Protocol";
+export * from "./TerminalError";
+export * from "./VirtualTerminal";
+export * from "./Spinners";
+export * from "./Progress";
+export * from "./Layout";
+export * from "./Task";
+export * from "./TaskList";
+export * from "./LineHandle";
+export * from "./Keyboard";
+export * from "./Prompt";
+export * from "./JsonEvents";
+export * from "./Asciicast";
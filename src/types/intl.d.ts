@@ -0,0 +1,20 @@
+/** Intl.Segmenter is newer than the es2017 lib, and missing before Node.js 16 */
+declare namespace Intl {
+  interface ISegmentData {
+    segment: string;
+    index: number;
+    input: string;
+  }
+
+  interface ISegmenterOptions {
+    granularity?: "grapheme" | "word" | "sentence";
+  }
+
+  interface ISegmenter {
+    segment(input: string): Iterable<ISegmentData>;
+  }
+
+  const Segmenter:
+    | (new (locales?: string | string[], options?: ISegmenterOptions) => ISegmenter)
+    | undefined;
+}